@@ -8,6 +8,10 @@ import Auth from "./pages/Auth";
 import Bookmarks from "./pages/Bookmarks";
 import SearchHistory from "./pages/SearchHistory";
 import Candidates from "./pages/Candidates";
+import Skills from "./pages/Skills";
+import Review from "./pages/Review";
+import Jobs from "./pages/Jobs";
+import JobEditor from "./pages/JobEditor";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +28,11 @@ const App = () => (
           <Route path="/bookmarks" element={<Bookmarks />} />
           <Route path="/history" element={<SearchHistory />} />
           <Route path="/candidates" element={<Candidates />} />
+          <Route path="/skills" element={<Skills />} />
+          <Route path="/review" element={<Review />} />
+          <Route path="/jobs" element={<Jobs />} />
+          <Route path="/jobs/new" element={<JobEditor />} />
+          <Route path="/jobs/:jobId" element={<JobEditor />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
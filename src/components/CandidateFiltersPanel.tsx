@@ -0,0 +1,89 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SkillListInput } from '@/components/SkillListInput';
+import { EMPTY_FILTER_DRAFT, type CandidateFilterDraft } from '@/lib/filters';
+
+interface CandidateFiltersPanelProps {
+  value: CandidateFilterDraft;
+  onChange: (value: CandidateFilterDraft) => void;
+  disabled?: boolean;
+}
+
+// Non-negotiables for a matching run. Candidates failing any of them are excluded before
+// the model sees them, so they never appear in the results.
+export const CandidateFiltersPanel: React.FC<CandidateFiltersPanelProps> = ({ value, onChange, disabled }) => {
+  const update = <K extends keyof CandidateFilterDraft>(field: K, fieldValue: CandidateFilterDraft[K]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+  const isEmpty = !value.location.trim() && !value.minYears.trim() && !value.sector.trim() && value.skills.length === 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/20 bg-card/60 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-bold text-foreground flex items-center gap-2">
+          <Filter className="h-4 w-4 text-primary" />
+          Hard Filters
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange(EMPTY_FILTER_DRAFT)}
+          disabled={disabled || isEmpty}
+        >
+          Clear
+        </Button>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="filter-location" className="text-xs">Location</Label>
+        <Input
+          id="filter-location"
+          value={value.location}
+          onChange={(e) => update('location', e.target.value)}
+          placeholder="e.g. Berlin"
+          className="h-8"
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="filter-min-years" className="text-xs">Minimum Years of Experience</Label>
+        <Input
+          id="filter-min-years"
+          type="number"
+          min={0}
+          value={value.minYears}
+          onChange={(e) => update('minYears', e.target.value)}
+          className="h-8"
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="filter-sector" className="text-xs">Sector</Label>
+        <Input
+          id="filter-sector"
+          value={value.sector}
+          onChange={(e) => update('sector', e.target.value)}
+          placeholder="e.g. Finance"
+          className="h-8"
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="filter-skills" className="text-xs">Required Skills</Label>
+        <SkillListInput
+          id="filter-skills"
+          skills={value.skills}
+          onChange={(skills) => update('skills', skills)}
+          placeholder="Add a skill"
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Candidates without a matching location, sector or enough recorded experience are excluded.
+      </p>
+    </div>
+  );
+};
@@ -1,13 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { Search, Sparkles, Award, MapPin, Download, X, Bookmark } from 'lucide-react';
+import { Search, Sparkles, Award, MapPin, Download, X, Bookmark, EyeOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useBlindMode } from '@/hooks/useBlindMode';
+import { pseudonymFor, redactPii } from '@/lib/redaction';
 import { ProcessingLogsDialog } from '@/components/ProcessingLogsDialog';
+import { ResumeViewerDialog, type ResumeEvidence } from '@/components/ResumeViewerDialog';
+import { RequirementsChecklist } from '@/components/RequirementsChecklist';
+import { CandidateFiltersPanel } from '@/components/CandidateFiltersPanel';
+import { Json } from '@/integrations/supabase/types';
+import {
+  EMPTY_FILTER_DRAFT,
+  draftFromFilters,
+  filtersFromDraft,
+  toCandidateFilters,
+  type CandidateFilterDraft,
+} from '@/lib/filters';
+import { JOB_STATUS_LABELS, type Job } from '@/lib/jobs';
+import { resumeStoragePath } from '@/lib/resumeFiles';
+import {
+  requirementEvidence,
+  toRequirementResults,
+  toRequirements,
+  type Requirement,
+  type RequirementResult,
+} from '@/lib/requirements';
 import {
   Pagination,
   PaginationContent,
@@ -18,6 +43,30 @@ import {
   PaginationPrevious,
 } from '@/components/ui/pagination';
 
+// A resume section returned by match_profile_chunks for this job description
+type MatchedPassage = {
+  section: string;
+  content: string;
+  similarity: number;
+};
+
+// Select items cannot have an empty value, so searches without a job use a sentinel
+const NO_JOB = 'none';
+
+const SECTION_LABELS: Record<string, string> = {
+  summary: 'Summary',
+  position: 'Position',
+  skills: 'Skills',
+  education: 'Education',
+  resume: 'Resume',
+};
+
+const toPassages = (value: Json): MatchedPassage[] =>
+  Array.isArray(value) ? (value as unknown as MatchedPassage[]) : [];
+
+const toEvidence = (value: Json): ResumeEvidence[] =>
+  Array.isArray(value) ? (value as unknown as ResumeEvidence[]) : [];
+
 interface CandidateMatch {
   id: string;
   full_name: string;
@@ -31,18 +80,27 @@ interface CandidateMatch {
   reasoning: string;
   strengths: string[];
   concerns: string[];
+  matchedPassages?: MatchedPassage[];
+  evidence?: ResumeEvidence[];
+  requirementResults?: RequirementResult[];
 }
 
 export const CandidateHunting = () => {
   const [searchParams] = useSearchParams();
   const [jobDescription, setJobDescription] = useState('');
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState<string>(NO_JOB);
+  const [filterDraft, setFilterDraft] = useState<CandidateFilterDraft>(EMPTY_FILTER_DRAFT);
   const [searching, setSearching] = useState(false);
   const [matches, setMatches] = useState<CandidateMatch[]>([]);
+  const [requirements, setRequirements] = useState<Requirement[]>([]);
   const [totalCandidates, setTotalCandidates] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
   const [showBookmarkedOnly, setShowBookmarkedOnly] = useState(false);
   const [currentSearchId, setCurrentSearchId] = useState<string | null>(null);
+  const { blindMode, setBlindMode } = useBlindMode();
+  const [viewingCandidate, setViewingCandidate] = useState<CandidateMatch | null>(null);
   const [searchProgress, setSearchProgress] = useState(0);
   const [searchStatus, setSearchStatus] = useState('');
   const [processingLogs, setProcessingLogs] = useState<Array<{
@@ -54,19 +112,42 @@ export const CandidateHunting = () => {
   const [processingComplete, setProcessingComplete] = useState(false);
   const [processingError, setProcessingError] = useState(false);
   const { toast } = useToast();
+  // Stable so the resume viewer does not reload on every render
+  const closeResumeViewer = useCallback(() => setViewingCandidate(null), []);
+  const viewerEvidence = useMemo(() => viewingCandidate ? [
+    ...(viewingCandidate.evidence ?? []),
+    ...requirementEvidence(requirements, viewingCandidate.requirementResults ?? []),
+  ] : undefined, [viewingCandidate, requirements]);
   
   const itemsPerPage = 10;
+  const selectedJob = jobs.find(j => j.id === selectedJobId) ?? null;
 
-  // Fetch bookmarks and load search based on URL parameter or last search
-  useEffect(() => {
-    fetchBookmarks();
-    const searchId = searchParams.get('search');
-    if (searchId) {
-      loadSpecificSearch(searchId);
-    } else {
-      loadLastSearch();
+  const fetchJobs = async (): Promise<Job[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .order('title');
+
+      if (error) throw error;
+      setJobs(data || []);
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      return [];
     }
-  }, [searchParams]);
+  };
+
+  // The description box starts from the job's description but stays editable; a job's
+  // skills and experience are sent separately by ID
+  const selectJob = (jobId: string, available: Job[] = jobs) => {
+    const previous = available.find(j => j.id === selectedJobId);
+    const next = available.find(j => j.id === jobId);
+    setSelectedJobId(jobId);
+    setJobDescription(current =>
+      !current.trim() || current === previous?.description ? next?.description ?? '' : current
+    );
+  };
 
   const fetchBookmarks = async () => {
     try {
@@ -85,7 +166,7 @@ export const CandidateHunting = () => {
     }
   };
 
-  const loadSpecificSearch = async (searchId: string) => {
+  const loadSpecificSearch = useCallback(async (searchId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
@@ -129,9 +210,15 @@ export const CandidateHunting = () => {
         reasoning: c.reasoning,
         strengths: c.key_strengths || [],
         concerns: c.potential_concerns || [],
+        matchedPassages: toPassages(c.matched_passages),
+        evidence: toEvidence(c.evidence),
+        requirementResults: toRequirementResults(c.requirement_results),
       }));
 
       setJobDescription(searchData.job_description);
+      setSelectedJobId(searchData.job_id ?? NO_JOB);
+      setRequirements(toRequirements(searchData.requirements));
+      setFilterDraft(draftFromFilters(toCandidateFilters(searchData.filters)));
       setMatches(formattedMatches);
       setTotalCandidates(searchData.total_candidates);
       setCurrentSearchId(searchData.id);
@@ -144,7 +231,7 @@ export const CandidateHunting = () => {
         variant: 'destructive',
       });
     }
-  };
+  }, [toast]);
 
   const loadLastSearch = async () => {
     try {
@@ -184,9 +271,15 @@ export const CandidateHunting = () => {
         reasoning: c.reasoning,
         strengths: c.key_strengths || [],
         concerns: c.potential_concerns || [],
+        matchedPassages: toPassages(c.matched_passages),
+        evidence: toEvidence(c.evidence),
+        requirementResults: toRequirementResults(c.requirement_results),
       }));
 
       setJobDescription(searchData.job_description);
+      setSelectedJobId(searchData.job_id ?? NO_JOB);
+      setRequirements(toRequirements(searchData.requirements));
+      setFilterDraft(draftFromFilters(toCandidateFilters(searchData.filters)));
       setMatches(formattedMatches);
       setTotalCandidates(searchData.total_candidates);
       setCurrentSearchId(searchData.id);
@@ -196,6 +289,28 @@ export const CandidateHunting = () => {
     }
   };
 
+  // Fetch bookmarks and load search based on URL parameter or last search
+  useEffect(() => {
+    fetchBookmarks();
+    const jobsLoaded = fetchJobs();
+    const searchId = searchParams.get('search');
+    const jobId = searchParams.get('job');
+    if (searchId) {
+      loadSpecificSearch(searchId);
+    } else if (jobId) {
+      // Opened from the jobs page: start a fresh search for that job
+      jobsLoaded.then((loaded) => {
+        const job = loaded.find(j => j.id === jobId);
+        if (job) {
+          setSelectedJobId(job.id);
+          setJobDescription(job.description ?? '');
+        }
+      });
+    } else {
+      loadLastSearch();
+    }
+  }, [searchParams, loadSpecificSearch]);
+
   const toggleBookmark = async (candidateId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -276,10 +391,11 @@ export const CandidateHunting = () => {
       'Job Title',
       'Years of Experience',
       'Match %',
+      'Requirements Met',
       'Key Strengths',
       'Potential Concerns',
       'Reasoning',
-      'Resume URL'
+      'Resume File'
     ];
 
     // Create CSV rows
@@ -292,10 +408,13 @@ export const CandidateHunting = () => {
       candidate.job_title || '',
       candidate.years_of_experience || '',
       candidate.matchScore,
+      requirements.length > 0
+        ? `${(candidate.requirementResults ?? []).filter(r => r.status === 'met').length}/${requirements.length}`
+        : '',
       candidate.strengths.join('; '),
       candidate.concerns.join('; '),
       candidate.reasoning || '',
-      candidate.resume_file_url || ''
+      candidate.resume_file_url ? resumeStoragePath(candidate.resume_file_url) : ''
     ]);
 
     // Combine headers and rows
@@ -332,9 +451,11 @@ export const CandidateHunting = () => {
 
   const handleClearResults = () => {
     setMatches([]);
+    setRequirements([]);
     setTotalCandidates(0);
     setCurrentPage(1);
     setJobDescription('');
+    setFilterDraft(EMPTY_FILTER_DRAFT);
     setShowBookmarkedOnly(false);
     setCurrentSearchId(null);
     toast({
@@ -349,10 +470,10 @@ export const CandidateHunting = () => {
   };
 
   const handleSearch = async () => {
-    if (!jobDescription.trim()) {
+    if (!jobDescription.trim() && !selectedJob) {
       toast({
         title: 'Job Description Required',
-        description: 'Please enter a job description to find matching candidates',
+        description: 'Please enter a job description or choose a job to find matching candidates',
         variant: 'destructive',
       });
       return;
@@ -382,7 +503,7 @@ export const CandidateHunting = () => {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({ jobDescription }),
+          body: JSON.stringify({ jobDescription, jobId: selectedJob?.id, filters: filtersFromDraft(filterDraft) }),
         }
       );
 
@@ -437,6 +558,7 @@ export const CandidateHunting = () => {
 
       const matches = finalData.matches;
       const total = finalData.total || 0;
+      const checklist: Requirement[] = finalData.requirements || [];
 
       addLog('success', `Successfully matched ${matches.length} candidates!`);
       console.log('Received matches from edge function:', matches.length);
@@ -447,8 +569,11 @@ export const CandidateHunting = () => {
         .from('job_searches')
         .insert({
           user_id: user.id,
-          job_description: jobDescription,
+          job_id: selectedJob?.id ?? null,
+          job_description: jobDescription.trim() || selectedJob?.title || '',
           total_candidates: total,
+          requirements: checklist,
+          filters: finalData.filters ?? {},
         })
         .select()
         .single();
@@ -476,6 +601,9 @@ export const CandidateHunting = () => {
         reasoning: match.reasoning,
         key_strengths: match.strengths || [],
         potential_concerns: match.concerns || [],
+        matched_passages: match.matchedPassages || [],
+        evidence: match.evidence || [],
+        requirement_results: match.requirementResults || [],
       }));
 
       addLog('info', `Saving ${candidateRecords.length} candidate records...`);
@@ -495,6 +623,7 @@ export const CandidateHunting = () => {
       setProcessingComplete(true);
 
       setMatches(matches);
+      setRequirements(checklist);
       setTotalCandidates(total);
       setCurrentSearchId(searchData.id);
       setCurrentPage(1);
@@ -531,16 +660,49 @@ export const CandidateHunting = () => {
             </div>
           </div>
 
-          <Textarea
-            placeholder="Enter job description including required skills, experience, qualifications, and any specific requirements..."
-            value={jobDescription}
-            onChange={(e) => setJobDescription(e.target.value)}
-            className="min-h-[150px] resize-none text-base"
-          />
+          {jobs.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="job-requisition">Job Requisition</Label>
+              <Select value={selectedJobId} onValueChange={(value) => selectJob(value)} disabled={searching}>
+                <SelectTrigger id="job-requisition">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_JOB}>No job (description only)</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}
+                      {job.status !== 'open' && ` (${JOB_STATUS_LABELS[job.status] ?? job.status})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedJob && (selectedJob.must_have_skills.length > 0 || selectedJob.nice_to_have_skills.length > 0) && (
+                <div className="flex flex-wrap gap-1">
+                  {selectedJob.must_have_skills.map((skill) => (
+                    <Badge key={`must-${skill}`} variant="default">{skill}</Badge>
+                  ))}
+                  {selectedJob.nice_to_have_skills.map((skill) => (
+                    <Badge key={`nice-${skill}`} variant="outline">{skill}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <Textarea
+              placeholder="Enter job description including required skills, experience, qualifications, and any specific requirements..."
+              value={jobDescription}
+              onChange={(e) => setJobDescription(e.target.value)}
+              className="min-h-[150px] h-full resize-none text-base lg:col-span-2"
+            />
+            <CandidateFiltersPanel value={filterDraft} onChange={setFilterDraft} disabled={searching} />
+          </div>
 
           <Button
             onClick={handleSearch}
-            disabled={searching || !jobDescription.trim()}
+            disabled={searching || (!jobDescription.trim() && !selectedJob)}
             className="w-full h-12 text-lg font-semibold bg-gradient-to-r from-primary to-secondary hover:opacity-90 shadow-[var(--shadow-elegant)] hover:shadow-[var(--shadow-premium)] hover:scale-105 transition-all duration-300"
           >
             {searching ? (
@@ -602,10 +764,19 @@ export const CandidateHunting = () => {
                   <Bookmark className={`h-4 w-4 ${showBookmarkedOnly ? 'fill-current' : ''}`} />
                   {showBookmarkedOnly ? 'Show All' : 'Bookmarked Only'}
                 </Button>
+                <div className="flex items-center gap-2">
+                  <Switch id="blind-mode" checked={blindMode} onCheckedChange={setBlindMode} />
+                  <Label htmlFor="blind-mode" className="text-sm flex items-center gap-1 cursor-pointer">
+                    <EyeOff className="h-4 w-4" />
+                    Blind Review
+                  </Label>
+                </div>
               </div>
               <div className="flex items-center gap-2">
                 <Button
                   onClick={exportToCSV}
+                  disabled={blindMode}
+                  title={blindMode ? 'The export includes identity details; turn off blind review to download it' : undefined}
                   variant="outline"
                   className="flex items-center gap-2 bg-gradient-to-r from-primary/10 to-secondary/10 hover:from-primary/20 hover:to-secondary/20 border-primary/30"
                 >
@@ -623,9 +794,24 @@ export const CandidateHunting = () => {
               </div>
             </div>
 
+            <RequirementsChecklist
+              requirements={requirements}
+              rows={currentMatches.map((candidate) => ({
+                id: candidate.id,
+                label: blindMode ? pseudonymFor(candidate.id) : candidate.full_name,
+                matchScore: candidate.matchScore,
+                results: (candidate.requirementResults ?? []).map((result) => ({
+                  ...result,
+                  evidence: result.evidence && blindMode ? redactPii(result.evidence, candidate) : result.evidence,
+                })),
+              }))}
+            />
+
             <div className="grid gap-4">
               {currentMatches.map((candidate, index) => {
                 const globalIndex = startIndex + index;
+                // Blind review hides identity and scrubs it from the model's own words too
+                const shown = (text: string) => (blindMode ? redactPii(text, candidate) : text);
                 return (
                 <Card key={candidate.id} className="p-6 hover:shadow-[var(--shadow-premium)] hover:scale-[1.02] transition-all duration-300 bg-card/90 backdrop-blur-sm border border-primary/20 animate-fade-in">
                   <div className="flex items-start justify-between mb-4">
@@ -634,7 +820,9 @@ export const CandidateHunting = () => {
                         #{globalIndex + 1}
                       </div>
                     <div>
-                      <h4 className="text-xl font-bold text-foreground">{candidate.full_name}</h4>
+                      <h4 className="text-xl font-bold text-foreground">
+                        {blindMode ? pseudonymFor(candidate.id) : candidate.full_name}
+                      </h4>
                       {candidate.job_title && (
                         <p className="text-sm text-muted-foreground font-medium">{candidate.job_title}</p>
                       )}
@@ -669,7 +857,7 @@ export const CandidateHunting = () => {
                 </div>
 
                 {/* Contact Information - Highlighted Section */}
-                {(candidate.email || candidate.phone_number || candidate.location) && (
+                {!blindMode && (candidate.email || candidate.phone_number || candidate.location) && (
                   <div className="mb-4 p-4 bg-gradient-to-br from-primary/5 to-secondary/5 rounded-lg border-2 border-primary/20">
                     <p className="text-sm font-bold text-foreground mb-3 flex items-center gap-2">
                       📇 Contact Information
@@ -704,16 +892,37 @@ export const CandidateHunting = () => {
                 <div className="space-y-4">
                   <div>
                     <p className="text-sm font-bold text-muted-foreground mb-2">Why This Match?</p>
-                    <p className="text-sm bg-muted/50 p-3 rounded-lg leading-relaxed">{candidate.reasoning}</p>
+                    <p className="text-sm bg-muted/50 p-3 rounded-lg leading-relaxed">{shown(candidate.reasoning)}</p>
                   </div>
 
+                  {candidate.matchedPassages && candidate.matchedPassages.length > 0 && (
+                    <div>
+                      <p className="text-sm font-bold text-muted-foreground mb-2">Best Matching Sections</p>
+                      <div className="space-y-2">
+                        {candidate.matchedPassages.map((passage, i) => (
+                          <div key={i} className="text-sm border-l-2 border-primary/60 bg-primary/5 p-3 rounded-r-lg">
+                            <div className="flex items-center justify-between mb-1">
+                              <Badge variant="outline" className="text-xs">
+                                {SECTION_LABELS[passage.section] ?? passage.section}
+                              </Badge>
+                              <span className="text-xs text-muted-foreground">
+                                {Math.round(passage.similarity * 100)}% similar
+                              </span>
+                            </div>
+                            <p className="leading-relaxed whitespace-pre-line line-clamp-4">{shown(passage.content)}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {candidate.strengths.length > 0 && (
                     <div>
                       <p className="text-sm font-bold text-muted-foreground mb-2">Key Strengths</p>
                       <div className="flex flex-wrap gap-2">
                         {candidate.strengths.map((strength, i) => (
                           <Badge key={i} variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100 font-medium">
-                            ✓ {strength}
+                            ✓ {shown(strength)}
                           </Badge>
                         ))}
                       </div>
@@ -726,23 +935,22 @@ export const CandidateHunting = () => {
                       <div className="flex flex-wrap gap-2">
                         {candidate.concerns.map((concern, i) => (
                           <Badge key={i} variant="outline" className="border-orange-300 text-orange-700 dark:border-orange-700 dark:text-orange-300 font-medium">
-                            ⚠ {concern}
+                            ⚠ {shown(concern)}
                           </Badge>
                         ))}
                       </div>
                     </div>
                   )}
 
-                  {candidate.resume_file_url && (
+                  {!blindMode && (
                     <div className="pt-4 border-t">
-                      <a 
-                        href={candidate.resume_file_url} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
+                      <button
+                        type="button"
+                        onClick={() => setViewingCandidate(candidate)}
                         className="text-sm text-primary hover:underline flex items-center gap-2 font-medium"
                       >
-                        📄 View Full Resume
-                      </a>
+                        📄 View Full Resume{candidate.evidence?.length || candidate.requirementResults?.some(r => r.evidence) ? ' with Evidence' : ''}
+                      </button>
                     </div>
                   )}
                 </div>
@@ -820,6 +1028,12 @@ export const CandidateHunting = () => {
           setProcessingError(false);
         }}
       />
+
+      <ResumeViewerDialog
+        profileId={viewingCandidate?.id ?? null}
+        onClose={closeResumeViewer}
+        evidence={viewerEvidence}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, MailOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { redactPii, type IdentityFields } from '@/lib/redaction';
+
+interface CoverLetterProps {
+  text: string | null;
+  // Set in blind review; the letter is signed with the candidate's name
+  redactFor?: IdentityFields;
+}
+
+// The body of the email a resume arrived with
+export const CoverLetter: React.FC<CoverLetterProps> = ({ text, redactFor }) => {
+  const [open, setOpen] = useState(false);
+
+  if (!text) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-2">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 px-2 text-muted-foreground">
+          <MailOpen className="h-4 w-4" />
+          Cover letter
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <p className="ml-4 mt-2 border-l border-border pl-4 text-sm text-muted-foreground whitespace-pre-line">
+          {redactFor ? redactPii(text, redactFor) : text}
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getDocument, GlobalWorkerOptions, TextLayer } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import 'pdfjs-dist/web/pdf_viewer.css';
+import type { ResumeEvidence } from '@/components/ResumeViewerDialog';
+import { findHighlights } from '@/lib/resumeHighlights';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PdfResumeViewProps {
+  url: string;
+  evidence: ResumeEvidence[];
+  patterns: (RegExp | null)[];
+  // Called with the evidence indexes found in the document once it is marked up
+  onMatches: (indexes: number[]) => void;
+}
+
+// The text layer sits over the page image, so marks only tint it
+const PDF_MARK_CLASSES: Record<ResumeEvidence['kind'], string> = {
+  strength: 'bg-green-400/40',
+  concern: 'bg-orange-400/40',
+  requirement: 'bg-sky-400/40',
+};
+
+interface RenderedPage {
+  spans: HTMLElement[];
+  strings: string[];
+  // Whether a line break follows each span
+  lineEnds: boolean[];
+}
+
+// Wraps the highlighted stretches of a page's text layer in marks. Quotes are matched against
+// the page text, the spans joined with a line break after each one that ends a line, so a
+// quote can run across spans.
+const markPage = (page: RenderedPage, patterns: (RegExp | null)[], evidence: ResumeEvidence[]) => {
+  const starts: number[] = [];
+  let text = '';
+  page.strings.forEach((str, i) => {
+    starts.push(text.length);
+    text += str + (page.lineEnds[i] ? '\n' : '');
+  });
+
+  const highlights = findHighlights(text, patterns);
+  page.spans.forEach((span, i) => {
+    const str = page.strings[i];
+    const spanStart = starts[i];
+    const spanEnd = spanStart + str.length;
+    span.textContent = str;
+
+    const pieces: Node[] = [];
+    let cursor = 0;
+    for (const { start, end, index } of highlights) {
+      if (end <= spanStart || start >= spanEnd) continue;
+      const from = Math.max(start, spanStart) - spanStart;
+      const to = Math.min(end, spanEnd) - spanStart;
+      if (from > cursor) pieces.push(document.createTextNode(str.slice(cursor, from)));
+      const mark = document.createElement('mark');
+      mark.className = `rounded-sm text-transparent ${PDF_MARK_CLASSES[evidence[index].kind]}`;
+      mark.title = evidence[index].point;
+      mark.textContent = str.slice(from, to);
+      // Only the start of a quote is a scroll target
+      if (start >= spanStart) mark.dataset.evidence = String(index);
+      pieces.push(mark);
+      cursor = to;
+    }
+    if (!pieces.length) return;
+    if (cursor < str.length) pieces.push(document.createTextNode(str.slice(cursor)));
+    span.replaceChildren(...pieces);
+  });
+  return highlights.map((highlight) => highlight.index);
+};
+
+export const PdfResumeView: React.FC<PdfResumeViewProps> = ({ url, evidence, patterns, onMatches }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pages, setPages] = useState<RenderedPage[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Renders every page to a canvas with a selectable text layer on top
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setPages(null);
+    setFailed(false);
+
+    let cancelled = false;
+    const loadingTask = getDocument(url);
+    const renderPages = async () => {
+      try {
+        const pdf = await loadingTask.promise;
+        // The tab can still be hidden while the dialog opens
+        const width = container.clientWidth || 800;
+        const outputScale = window.devicePixelRatio || 1;
+        const rendered: RenderedPage[] = [];
+
+        for (let n = 1; n <= pdf.numPages; n++) {
+          const page = await pdf.getPage(n);
+          const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+
+          const pageDiv = document.createElement('div');
+          pageDiv.className = 'relative mb-4 bg-white shadow-sm last:mb-0';
+          pageDiv.style.setProperty('--scale-factor', String(viewport.scale));
+          pageDiv.style.width = `${Math.floor(viewport.width)}px`;
+          pageDiv.style.height = `${Math.floor(viewport.height)}px`;
+
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.floor(viewport.width * outputScale);
+          canvas.height = Math.floor(viewport.height * outputScale);
+          canvas.style.width = '100%';
+          canvas.style.height = '100%';
+          const canvasContext = canvas.getContext('2d');
+          if (!canvasContext) throw new Error('Canvas is not available');
+          await page.render({
+            canvasContext,
+            viewport,
+            transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+          }).promise;
+
+          const textContent = await page.getTextContent();
+          const textLayerDiv = document.createElement('div');
+          textLayerDiv.className = 'textLayer';
+          const textLayer = new TextLayer({ textContentSource: textContent, container: textLayerDiv, viewport });
+          await textLayer.render();
+          if (cancelled) return;
+
+          pageDiv.append(canvas, textLayerDiv);
+          container.append(pageDiv);
+          rendered.push({
+            spans: textLayer.textDivs,
+            strings: textLayer.textContentItemsStr,
+            lineEnds: textContent.items.flatMap((item) => ('str' in item ? [item.hasEOL] : [])),
+          });
+        }
+        setPages(rendered);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to render PDF resume:', error);
+        setFailed(true);
+      }
+    };
+
+    renderPages();
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+      container.replaceChildren();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pages) return;
+    onMatches([...new Set(pages.flatMap((page) => markPage(page, patterns, evidence)))]);
+  }, [pages, patterns, evidence, onMatches]);
+
+  return (
+    <div className="relative h-full overflow-auto rounded-md border bg-muted/30 p-4">
+      {!pages && !failed && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      )}
+      {failed && (
+        <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+          This PDF could not be displayed; open the file or read the extracted text
+        </div>
+      )}
+      <div ref={containerRef} />
+    </div>
+  );
+};
@@ -31,6 +31,8 @@ interface ProcessingLogsDialogProps {
   onClose: () => void;
   onCancel?: () => void;
   estimatedTimeRemaining?: number | null;
+  // Allows hiding the dialog while work continues in the background
+  canClose?: boolean;
 }
 
 export const ProcessingLogsDialog: React.FC<ProcessingLogsDialogProps> = ({
@@ -43,6 +45,7 @@ export const ProcessingLogsDialog: React.FC<ProcessingLogsDialogProps> = ({
   onClose,
   onCancel,
   estimatedTimeRemaining,
+  canClose = false,
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -64,7 +67,7 @@ export const ProcessingLogsDialog: React.FC<ProcessingLogsDialogProps> = ({
   };
 
   return (
-    <Dialog open={open} onOpenChange={(open) => !open && (isComplete || hasError) && onClose()}>
+    <Dialog open={open} onOpenChange={(open) => !open && (isComplete || hasError || canClose) && onClose()}>
       <DialogContent className="max-w-3xl max-h-[80vh]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -156,11 +159,18 @@ export const ProcessingLogsDialog: React.FC<ProcessingLogsDialogProps> = ({
                 Close
               </Button>
             </div>
-          ) : onCancel ? (
-            <div className="flex justify-end pt-4 border-t">
-              <Button onClick={onCancel} variant="destructive">
-                Cancel Upload
-              </Button>
+          ) : (onCancel || canClose) ? (
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              {canClose && (
+                <Button onClick={onClose} variant="outline">
+                  Run in Background
+                </Button>
+              )}
+              {onCancel && (
+                <Button onClick={onCancel} variant="destructive">
+                  Cancel Upload
+                </Button>
+              )}
             </div>
           ) : null}
         </div>
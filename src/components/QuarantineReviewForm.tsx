@@ -0,0 +1,204 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+const splitSkills = (value: string) => value.split(',').map((skill) => skill.trim()).filter(Boolean);
+
+// Mirrors the validation parse-resume-batch applies before saving a profile
+const reviewSchema = z.object({
+  full_name: z.string().trim().min(1, 'Name is required').max(200),
+  email: z.string().trim().min(1, 'Email is required').email('Enter a valid email address'),
+  phone_number: z.string().trim().max(50),
+  location: z.string().trim().max(200),
+  job_title: z.string().trim().min(1, 'Job title is required').max(200),
+  years_of_experience: z.coerce.number().int('Use whole years').min(0).max(70),
+  sector: z.string().trim().min(1, 'Sector is required').max(200),
+  skills: z.string().refine((value) => splitSkills(value).length > 0, 'Add at least one skill'),
+  experience: z.string().trim().max(2000),
+  education: z.string().trim().max(2000),
+});
+
+export type ReviewFormInput = z.infer<typeof reviewSchema>;
+// Skills are edited as a comma-separated string and submitted as a list
+export type ReviewFormValues = Omit<ReviewFormInput, 'skills'> & { skills: string[] };
+
+interface QuarantineReviewFormProps {
+  defaultValues: ReviewFormInput;
+  missingFields: string[];
+  submitting: boolean;
+  onSubmit: (values: ReviewFormValues) => void;
+  onCancel: () => void;
+}
+
+export const QuarantineReviewForm: React.FC<QuarantineReviewFormProps> = ({
+  defaultValues,
+  missingFields,
+  submitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const form = useForm<ReviewFormInput>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues,
+  });
+
+  // Fields the extraction could not fill are highlighted until the recruiter edits them
+  const highlight = (field: string) => (missingFields.includes(field) ? 'border-amber-500' : undefined);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => onSubmit({ ...values, skills: splitSkills(values.skills) }))} className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="full_name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Full Name *</FormLabel>
+                <FormControl>
+                  <Input {...field} className={highlight('full_name')} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email *</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} className={highlight('email')} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="job_title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Job Title *</FormLabel>
+                <FormControl>
+                  <Input {...field} className={highlight('job_title')} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="sector"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sector *</FormLabel>
+                <FormControl>
+                  <Input {...field} className={highlight('sector')} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phone_number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="location"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Location</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="years_of_experience"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Years of Experience</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="skills"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Skills *</FormLabel>
+              <FormControl>
+                <Input {...field} className={highlight('skills')} />
+              </FormControl>
+              <FormDescription>Separate skills with commas</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="experience"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Experience Summary</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="education"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Education Summary</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={submitting} className="gap-2">
+            {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save as Candidate
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
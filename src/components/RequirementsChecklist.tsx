@@ -0,0 +1,120 @@
+import React from 'react';
+import { Check, CircleDashed, ListChecks, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { Requirement, RequirementResult } from '@/lib/requirements';
+
+export interface ChecklistRow {
+  id: string;
+  label: string;
+  matchScore: number;
+  results: RequirementResult[];
+}
+
+interface RequirementsChecklistProps {
+  requirements: Requirement[];
+  rows: ChecklistRow[];
+}
+
+const STATUS_STYLES: Record<RequirementResult['status'], { label: string; className: string; icon: React.ReactNode }> = {
+  met: {
+    label: 'Met',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+    icon: <Check className="h-4 w-4" />,
+  },
+  partial: {
+    label: 'Partially met',
+    className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100',
+    icon: <CircleDashed className="h-4 w-4" />,
+  },
+  missing: {
+    label: 'Missing',
+    className: 'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300',
+    icon: <X className="h-4 w-4" />,
+  },
+};
+
+export const RequirementsChecklist: React.FC<RequirementsChecklistProps> = ({ requirements, rows }) => {
+  if (requirements.length === 0 || rows.length === 0) return null;
+
+  return (
+    <Card className="p-6 bg-card/90 backdrop-blur-sm border border-primary/20">
+      <h4 className="text-lg font-bold text-foreground flex items-center gap-2 mb-1">
+        <ListChecks className="h-5 w-5 text-primary" />
+        Requirements Checklist
+      </h4>
+      <p className="text-sm text-muted-foreground mb-4">
+        Scores follow from these requirements; must-haves weigh three times as much as nice-to-haves. Hover a cell
+        for the resume quote behind it.
+      </p>
+
+      <ol className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm mb-4">
+        {requirements.map((requirement) => (
+          <li key={requirement.id} className="flex items-start gap-2">
+            <span className="font-mono text-xs text-muted-foreground pt-0.5">{requirement.id}</span>
+            <span className="flex-1">{requirement.text}</span>
+            <Badge variant={requirement.importance === 'must' ? 'default' : 'outline'} className="text-xs shrink-0">
+              {requirement.importance === 'must' ? 'Must' : 'Nice'}
+            </Badge>
+          </li>
+        ))}
+      </ol>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[160px]">Candidate</TableHead>
+              <TableHead className="text-center">Score</TableHead>
+              {requirements.map((requirement) => (
+                <TableHead key={requirement.id} className="text-center font-mono" title={requirement.text}>
+                  {requirement.id}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const resultsById = new Map(row.results.map((result) => [result.requirementId, result]));
+              return (
+                <TableRow key={row.id}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-center font-bold">{row.matchScore}%</TableCell>
+                  {requirements.map((requirement) => {
+                    const result = resultsById.get(requirement.id);
+                    // Nothing to show when a match has no result for this requirement
+                    if (!result) {
+                      return <TableCell key={requirement.id} className="text-center text-muted-foreground">–</TableCell>;
+                    }
+                    const style = STATUS_STYLES[result.status];
+                    return (
+                      <TableCell key={requirement.id} className="text-center p-1">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span
+                              className={`inline-flex h-7 w-7 items-center justify-center rounded-md ${style.className}`}
+                              aria-label={`${requirement.id} ${style.label}`}
+                            >
+                              {style.icon}
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs">
+                            <p className="font-medium">{requirement.text}</p>
+                            <p className="text-xs text-muted-foreground">{style.label}</p>
+                            {result.evidence && <p className="mt-1 text-xs italic">“{result.evidence}”</p>}
+                          </TooltipContent>
+                        </Tooltip>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
@@ -1,35 +1,164 @@
-import { useState, useRef } from 'react';
-import { Upload, FileText, CheckCircle } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Upload, FileText, CheckCircle, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { useIngestionJob, type IngestionItem } from '@/hooks/useIngestionJob';
 import { ProcessingLogsDialog } from '@/components/ProcessingLogsDialog';
 import { supabase } from '@/integrations/supabase/client';
+import { userStoragePath } from '@/lib/resumeFiles';
+
+const PROCESS_JOB_URL = 'https://olkbhjyfpdvcovtuekzt.supabase.co/functions/v1/process-ingestion-job';
+const UPLOAD_CONCURRENCY = 4;
+
+// SHA-256 of the file contents, used to skip resumes that were already imported before
+// uploading them. Only a hint: the worker hashes the stored file itself.
+const hashFile = async (file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+type LogEntry = { timestamp: string; level: 'info' | 'error' | 'success'; message: string };
 
 export const ResumeUpload = () => {
   const [uploading, setUploading] = useState(false);
-  const [uploadedCount, setUploadedCount] = useState(0);
+  const [jobId, setJobId] = useState<string | null>(null);
   const [showLogsDialog, setShowLogsDialog] = useState(false);
-  const [processingLogs, setProcessingLogs] = useState<Array<{ timestamp: string; level: 'info' | 'error' | 'success'; message: string }>>([]);
-  const [progress, setProgress] = useState(0);
-  const [isComplete, setIsComplete] = useState(false);
-  const [hasError, setHasError] = useState(false);
+  const [processingLogs, setProcessingLogs] = useState<LogEntry[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState(0);
+  const [uploadFailures, setUploadFailures] = useState(0);
   const [totalFiles, setTotalFiles] = useState(0);
-  const [processedFiles, setProcessedFiles] = useState(0);
-  const [droppedFiles, setDroppedFiles] = useState(0);
-  const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<number | null>(null);
-  const [isCancelled, setIsCancelled] = useState(false);
+  const [hasError, setHasError] = useState(false);
   const { toast } = useToast();
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const handleCancelUpload = () => {
-    setIsCancelled(true);
-    abortControllerRef.current?.abort();
-    setProcessingLogs(prev => [...prev, {
-      timestamp: new Date().toLocaleTimeString(),
-      level: 'info',
-      message: 'Upload cancelled by user'
-    }]);
+  const cancelledRef = useRef(false);
+  const notifiedJobRef = useRef<string | null>(null);
+
+  const addLog = useCallback((level: LogEntry['level'], message: string) => {
+    setProcessingLogs(prev => [...prev, { timestamp: new Date().toLocaleTimeString(), level, message }]);
+  }, []);
+
+  const handleItemChange = (item: IngestionItem, previous: IngestionItem | undefined) => {
+    if (item.status === 'completed') {
+      addLog('success', `Processed ${item.file_name}`);
+    } else if (item.status === 'duplicate') {
+      addLog('info', `Already imported: ${item.file_name} - skipped`);
+    } else if (item.status === 'expanded') {
+      addLog('info', `Unpacked ${item.file_name}`);
+    } else if (item.status === 'failed') {
+      addLog('error', `Failed: ${item.file_name} - ${item.last_error || 'Unknown error'}`);
+    } else if (item.status === 'pending' && previous?.status === 'processing') {
+      addLog('info', `Retrying ${item.file_name} (${item.last_error || 'temporary error'})`);
+    }
+  };
+
+  const { job, items } = useIngestionJob(jobId, handleItemChange);
+
+  const isProcessing = !!job && (job.status === 'pending' || job.status === 'processing');
+  const isComplete = !!job && !uploading && (job.status === 'completed' || job.status === 'cancelled');
+
+  const startWorker = useCallback(async (id: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+
+    try {
+      const response = await fetch(PROCESS_JOB_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ jobId: id }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Failed to start ingestion worker:', errorText);
+        addLog('error', `Failed to start processing: ${errorText || response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to start ingestion worker:', error);
+    }
+  }, [addLog]);
+
+  // Resume the most recent unfinished import after a reload
+  useEffect(() => {
+    const resumeActiveJob = async () => {
+      const { data: activeJob, error } = await supabase
+        .from('ingestion_jobs')
+        .select('*')
+        .in('status', ['pending', 'processing'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error || !activeJob) return;
+
+      // Files that never reached storage before the previous tab closed will not arrive anymore
+      const { count } = await supabase
+        .from('ingestion_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('job_id', activeJob.id)
+        .is('parent_item_id', null);
+
+      if (count !== null && count < activeJob.total_items) {
+        await supabase
+          .from('ingestion_jobs')
+          .update({ total_items: count })
+          .eq('id', activeJob.id);
+      }
+
+      setJobId(activeJob.id);
+      setTotalFiles(count ?? activeJob.total_items);
+      setUploadedFiles(count ?? activeJob.total_items);
+      setProcessingLogs([{
+        timestamp: new Date().toLocaleTimeString(),
+        level: 'info',
+        message: 'Resuming previous import...'
+      }]);
+      startWorker(activeJob.id);
+    };
+
+    resumeActiveJob();
+  }, [startWorker]);
+
+  // Announce the outcome once per job
+  useEffect(() => {
+    if (!job || !isComplete || notifiedJobRef.current === job.id) return;
+    notifiedJobRef.current = job.id;
+
+    if (job.status === 'cancelled') {
+      toast({
+        title: 'Upload Cancelled',
+        description: `Processed ${job.succeeded_items} resume(s) before cancellation`,
+        variant: 'default',
+      });
+      return;
+    }
+
+    const failedCount = job.failed_items + uploadFailures;
+    const skippedNote = job.skipped_items > 0 ? `, ${job.skipped_items} already imported` : '';
+    toast({
+      title: failedCount === 0 ? 'Success!' : 'Partially Complete',
+      description: failedCount === 0
+        ? `Successfully uploaded ${job.succeeded_items} resume(s)${skippedNote}`
+        : `Uploaded ${job.succeeded_items} resume(s), ${failedCount} failed${skippedNote}`,
+      variant: failedCount === 0 ? 'default' : 'destructive',
+    });
+  }, [job, isComplete, toast, uploadFailures]);
+
+  const handleCancelUpload = async () => {
+    cancelledRef.current = true;
+    addLog('info', 'Upload cancelled by user');
+    if (!jobId) return;
+
+    await supabase
+      .from('ingestion_jobs')
+      .update({ status: 'cancelled' })
+      .eq('id', jobId);
+    await supabase
+      .from('ingestion_items')
+      .update({ status: 'cancelled' })
+      .eq('job_id', jobId)
+      .eq('status', 'pending');
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -40,19 +169,39 @@ export const ResumeUpload = () => {
     const filesArray = Array.from(files);
     const validFiles: File[] = [];
     const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
-    const ALLOWED_TYPES = ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    
+    const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024; // 50MB
+    const ALLOWED_TYPES = [
+      'application/pdf',
+      'text/plain',
+      'text/html',
+      'application/rtf',
+      'text/rtf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.oasis.opendocument.text',
+      'image/png',
+      'image/jpeg',
+      'image/webp',
+      'application/zip',
+      'application/x-zip-compressed',
+      'message/rfc822',
+      'application/mbox',
+      'application/json',
+    ];
+
     for (const file of filesArray) {
-      if (file.size > MAX_FILE_SIZE) {
+      // Emails and mailboxes are unpacked into their attachments like archives
+      const isArchive = /\.(zip|eml|mbox)$/i.test(file.name);
+      if (file.size > (isArchive ? MAX_ARCHIVE_SIZE : MAX_FILE_SIZE)) {
         toast({
           title: 'File Too Large',
-          description: `${file.name} exceeds 20MB limit`,
+          description: `${file.name} exceeds ${isArchive ? '50MB' : '20MB'} limit`,
           variant: 'destructive',
         });
         continue;
       }
-      
-      if (!ALLOWED_TYPES.includes(file.type) && !file.name.match(/\.(pdf|txt|doc|docx)$/i)) {
+
+      if (!ALLOWED_TYPES.includes(file.type) && !file.name.match(/\.(pdf|txt|doc|docx|rtf|odt|html?|png|jpe?g|webp|json|zip|eml|mbox)$/i)) {
         toast({
           title: 'Invalid File Type',
           description: `${file.name} is not a supported format`,
@@ -60,14 +209,14 @@ export const ResumeUpload = () => {
         });
         continue;
       }
-      
+
       validFiles.push(file);
     }
-    
+
     if (validFiles.length === 0) {
       toast({
         title: 'No Valid Files',
-        description: 'Please upload PDF, TXT, DOC, or DOCX files under 20MB',
+        description: 'Please upload PDF, Word, ODT, RTF, HTML, TXT, JSON Resume or image files under 20MB, or ZIP archives, emails (.eml) and mailboxes (.mbox) under 50MB',
         variant: 'destructive',
       });
       return;
@@ -76,196 +225,130 @@ export const ResumeUpload = () => {
     setUploading(true);
     setShowLogsDialog(true);
     setProcessingLogs([]);
-    setProgress(0);
-    setIsComplete(false);
     setHasError(false);
     setTotalFiles(validFiles.length);
-    setProcessedFiles(0);
-    setDroppedFiles(0);
-    setUploadedCount(0);
-    setEstimatedTimeRemaining(null);
-    setIsCancelled(false);
-    abortControllerRef.current = new AbortController();
-    const startTime = Date.now();
+    setUploadedFiles(0);
+    setUploadFailures(0);
+    cancelledRef.current = false;
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.access_token) throw new Error('No active session found');
+      if (!session?.user) throw new Error('No active session found');
 
-      // Process files in batches of 8 (4 parallel API keys × 2 resumes per batch)
-      const BATCH_SIZE = 8;
-      const batches: File[][] = [];
-      for (let i = 0; i < validFiles.length; i += BATCH_SIZE) {
-        batches.push(validFiles.slice(i, i + BATCH_SIZE));
+      // 1. Skip files that are already in the pool or were selected twice
+      addLog('info', 'Checking for previously imported files...');
+      const hashes: string[] = [];
+      for (const file of validFiles) {
+        hashes.push(await hashFile(file));
       }
 
-      let successCount = 0;
-      let failedCount = 0;
-      let batchIndex = 0;
-      
-      for (const batch of batches) {
-        if (isCancelled || abortControllerRef.current?.signal.aborted) {
-          break;
-        }
-        
-        // Refresh session token before each batch to prevent timeout
-        try {
-          const { data: { session: refreshedSession } } = await supabase.auth.getSession();
-          if (!refreshedSession?.access_token) {
-            throw new Error('Session expired. Please log in again.');
-          }
-          session.access_token = refreshedSession.access_token;
-        } catch (refreshError) {
-          console.error('Session refresh error:', refreshError);
-          setProcessingLogs(prev => [...prev, {
-            timestamp: new Date().toLocaleTimeString(),
-            level: 'error',
-            message: 'Session expired. Please log in again and retry.'
-          }]);
-          setHasError(true);
-          break;
+      const importedHashes = new Set<string>();
+      for (let i = 0; i < hashes.length; i += 100) {
+        const { data: existing } = await supabase
+          .from('profiles')
+          .select('content_hash')
+          .in('content_hash', hashes.slice(i, i + 100));
+        existing?.forEach(profile => profile.content_hash && importedHashes.add(profile.content_hash));
+      }
+
+      const newFiles: File[] = [];
+      validFiles.forEach((file, index) => {
+        const hash = hashes[index];
+        if (importedHashes.has(hash)) {
+          addLog('info', `Already imported: ${file.name} - skipped`);
+          return;
         }
-        
-        // Create FormData with multiple files for batch processing
-        const formData = new FormData();
-        batch.forEach((file) => {
-          formData.append('files', file); // Use 'files' key for all files
+        importedHashes.add(hash);
+        newFiles.push(file);
+      });
+
+      if (newFiles.length === 0) {
+        addLog('success', 'All selected files were already imported');
+        toast({
+          title: 'Already Imported',
+          description: 'All selected resumes are already in your candidate pool',
         });
+        setTotalFiles(0);
+        event.target.value = '';
+        return;
+      }
+      setTotalFiles(newFiles.length);
 
-        try {
-          console.log(`Starting batch upload for ${batch.length} files:`, batch.map(f => f.name));
-          
-          batch.forEach(file => {
-            setProcessingLogs(prev => [...prev, {
-              timestamp: new Date().toLocaleTimeString(),
-              level: 'info',
-              message: `Uploading ${file.name}...`
-            }]);
-          });
-
-          const response = await fetch(
-            'https://olkbhjyfpdvcovtuekzt.supabase.co/functions/v1/parse-resume-batch',
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${session.access_token}`,
-              },
-              body: formData,
-              signal: abortControllerRef.current?.signal,
-            }
-          );
-
-          console.log(`Batch response status: ${response.status}`);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Batch upload failed:', errorText);
-            
-            // Handle authentication errors specifically
-            if (response.status === 401) {
-              setProcessingLogs(prev => [...prev, {
-                timestamp: new Date().toLocaleTimeString(),
-                level: 'error',
-                message: 'Authentication expired. Please log in again and retry.'
-              }]);
-              setHasError(true);
-              break;
-            }
-            
-            batch.forEach(file => {
-              setProcessingLogs(prev => [...prev, {
-                timestamp: new Date().toLocaleTimeString(),
-                level: 'error',
-                message: `Failed: ${file.name} - ${errorText || response.statusText}`
-              }]);
-            });
-            
-            setDroppedFiles(prev => prev + batch.length);
-            setProcessedFiles(prev => prev + batch.length);
-            continue;
-          }
+      // 2. Create a durable job so the import survives reloads and function timeouts
+      const { data: newJob, error: jobError } = await supabase
+        .from('ingestion_jobs')
+        .insert({ user_id: session.user.id, total_items: newFiles.length })
+        .select()
+        .single();
+
+      if (jobError) throw jobError;
+      setJobId(newJob.id);
+      addLog('info', `Created import job for ${newFiles.length} file(s)`);
+
+      // 3. Upload every file to storage first and queue it as an ingestion item
+      let nextIndex = 0;
+      let failed = 0;
+      let workerStarted = false;
 
-          const result = await response.json();
-          
-          if (result.success) {
-            setProcessingLogs(prev => [...prev, {
-              timestamp: new Date().toLocaleTimeString(),
-              level: 'success',
-              message: `Batch complete - ${result.processed} processed successfully`
-            }]);
-            
-            successCount += result.processed;
-            setUploadedCount(successCount);
-            
-            if (result.failed > 0 && result.failedFiles) {
-              result.failedFiles.forEach((failed: any) => {
-                setProcessingLogs(prev => [...prev, {
-                  timestamp: new Date().toLocaleTimeString(),
-                  level: 'error',
-                  message: `Failed: ${failed.fileName} - ${failed.error}`
-                }]);
+      const uploadNext = async (): Promise<void> => {
+        while (nextIndex < newFiles.length && !cancelledRef.current) {
+          const index = nextIndex++;
+          const file = newFiles[index];
+          const storagePath = userStoragePath(session.user.id, file.name, index);
+
+          const { error: uploadError } = await supabase.storage
+            .from('resumes')
+            .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+          const { error: itemError } = uploadError
+            ? { error: uploadError }
+            : await supabase.from('ingestion_items').insert({
+                job_id: newJob.id,
+                user_id: session.user.id,
+                file_name: file.name,
+                storage_path: storagePath,
+                mime_type: file.type || null,
+                file_size: file.size,
               });
-              failedCount += result.failed;
-              setDroppedFiles(failedCount);
-            }
-          } else {
-            throw new Error(result.error || 'Batch processing failed');
+
+          if (itemError) {
+            console.error(`Upload failed for ${file.name}:`, itemError);
+            failed++;
+            setUploadFailures(failed);
+            addLog('error', `Failed: ${file.name} - ${itemError.message}`);
+            continue;
           }
 
-        } catch (error) {
-          console.error('Error uploading batch:', error);
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          
-          batch.forEach(file => {
-            setProcessingLogs(prev => [...prev, {
-              timestamp: new Date().toLocaleTimeString(),
-              level: 'error',
-              message: `Failed: ${file.name} - ${errorMessage}`
-            }]);
-          });
-          
-          failedCount += batch.length;
-          setDroppedFiles(failedCount);
-        }
-        
-        batchIndex++;
-        
-        // Update progress with functional updates for real-time accuracy
-        setProcessedFiles(prev => {
-          const newProcessed = prev + batch.length;
-          setProgress((newProcessed / validFiles.length) * 100);
-          return newProcessed;
-        });
-        
-        // Update time estimation using current batch index
-        const elapsedTime = Date.now() - startTime;
-        const avgTimePerBatch = elapsedTime / batchIndex;
-        const remainingBatches = batches.length - batchIndex;
-        if (remainingBatches > 0) {
-          setEstimatedTimeRemaining(Math.ceil((avgTimePerBatch * remainingBatches) / 1000));
-        } else {
-          setEstimatedTimeRemaining(0);
+          setUploadedFiles(prev => prev + 1);
+
+          // Start processing as soon as the first files are queued
+          if (!workerStarted) {
+            workerStarted = true;
+            startWorker(newJob.id);
+          }
         }
+      };
+
+      await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, uploadNext));
+
+      // Files that failed or were skipped never became items; the job should not wait for them
+      const queued = cancelledRef.current ? nextIndex - failed : newFiles.length - failed;
+      if (queued !== newFiles.length) {
+        await supabase
+          .from('ingestion_jobs')
+          .update({ total_items: queued })
+          .eq('id', newJob.id);
+        setTotalFiles(queued);
       }
 
-      setIsComplete(true);
-      setEstimatedTimeRemaining(null);
-      
-      if (isCancelled || abortControllerRef.current?.signal.aborted) {
-        toast({
-          title: 'Upload Cancelled',
-          description: `Processed ${successCount} resume(s) before cancellation`,
-          variant: 'default',
-        });
-      } else {
-        toast({
-          title: failedCount === 0 ? 'Success!' : 'Partially Complete',
-          description: failedCount === 0 
-            ? `Successfully uploaded ${successCount} resume(s)`
-            : `Uploaded ${successCount} resume(s), ${failedCount} failed`,
-          variant: failedCount === 0 ? 'default' : 'destructive',
-        });
+      if (queued === 0) {
+        setHasError(true);
+        throw new Error('No files could be uploaded');
       }
+
+      addLog('success', `All ${queued} file(s) uploaded - processing continues in the background`);
+      // Kick the worker again in case it drained the queue before the last uploads arrived
+      if (!cancelledRef.current) startWorker(newJob.id);
       event.target.value = '';
     } catch (error) {
       setHasError(true);
@@ -279,6 +362,18 @@ export const ResumeUpload = () => {
     }
   };
 
+  // Expanded archives are replaced by the files they contained
+  const archiveFiles = items.filter(item => item.parent_item_id).length - items.filter(item => item.status === 'expanded').length;
+  const processTotal = totalFiles + archiveFiles;
+  const processedFiles = job?.processed_items ?? 0;
+  const succeededFiles = job?.succeeded_items ?? 0;
+  const droppedFiles = (job?.failed_items ?? 0) + uploadFailures;
+  const progress = totalFiles > 0
+    ? uploading
+      ? (uploadedFiles / totalFiles) * 50
+      : 50 + (processedFiles / Math.max(processTotal, 1)) * 50
+    : 0;
+
   return (
     <Card className="p-8 bg-gradient-to-br from-card/90 to-muted/20 backdrop-blur-sm border-2 border-dashed border-primary/30 hover:border-primary/60 hover:shadow-[var(--shadow-premium)] transition-all duration-300">
       <div className="flex flex-col items-center justify-center space-y-6">
@@ -292,37 +387,48 @@ export const ResumeUpload = () => {
         <div className="text-center space-y-2">
           <h3 className="text-2xl font-bold text-foreground">Upload Resumes</h3>
           <p className="text-muted-foreground max-w-md">
-            Upload candidate resumes in PDF or text format. Our AI will extract and store all relevant information.
+            Upload candidate resumes as PDF, Word, ODT, RTF, HTML, text or image files, JSON Resume documents, or as ZIP archives. Emails (.eml) and mailboxes (.mbox) are unpacked into their PDF and Word attachments. Our AI will extract and store all relevant information.
           </p>
         </div>
 
         <div className="flex flex-col items-center gap-4 w-full max-w-sm">
           <label htmlFor="resume-upload" className="w-full">
             <Button
-              disabled={uploading}
+              disabled={uploading || isProcessing}
               className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-primary to-secondary hover:opacity-90 shadow-[var(--shadow-elegant)] hover:shadow-[var(--shadow-premium)] hover:scale-105 transition-all duration-300"
               asChild
             >
               <span className="flex items-center">
                 <FileText className="mr-2 h-5 w-5" />
-                {uploading ? 'Processing...' : 'Select Resume Files'}
+                {uploading ? 'Uploading...' : isProcessing ? 'Processing...' : 'Select Resume Files'}
               </span>
             </Button>
             <input
               id="resume-upload"
               type="file"
               multiple
-              accept=".pdf,.txt,.doc,.docx"
+              accept=".pdf,.txt,.doc,.docx,.rtf,.odt,.html,.htm,.png,.jpg,.jpeg,.webp,.json,.zip,.eml,.mbox"
               onChange={handleFileUpload}
               className="hidden"
-              disabled={uploading}
+              disabled={uploading || isProcessing}
             />
           </label>
 
-          {uploadedCount > 0 && (
+          {isProcessing && !showLogsDialog && (
+            <Button
+              variant="outline"
+              onClick={() => setShowLogsDialog(true)}
+              className="w-full gap-2"
+            >
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Import in progress ({processedFiles}/{processTotal}) - view details
+            </Button>
+          )}
+
+          {succeededFiles > 0 && (
             <div className="flex items-center gap-2 text-accent animate-fade-in bg-accent/10 px-4 py-2 rounded-lg border border-accent/30">
               <CheckCircle className="h-5 w-5 animate-pulse" />
-              <span className="font-medium">{uploadedCount} resumes uploaded successfully</span>
+              <span className="font-medium">{succeededFiles} resumes uploaded successfully</span>
             </div>
           )}
         </div>
@@ -333,20 +439,22 @@ export const ResumeUpload = () => {
         logs={processingLogs}
         progress={progress}
         status={
-          uploading 
-            ? `Processing resumes... (${processedFiles}/${totalFiles} processed, ${droppedFiles} dropped)` 
-            : `Upload complete - ${processedFiles} processed, ${uploadedCount} uploaded, ${droppedFiles} dropped`
+          uploading
+            ? `Uploading files... (${uploadedFiles}/${totalFiles} uploaded, ${uploadFailures} dropped)`
+            : isProcessing
+              ? `Processing resumes... (${processedFiles}/${processTotal} processed, ${droppedFiles} dropped) - you can close this window`
+              : `Upload complete - ${processedFiles} processed, ${succeededFiles} uploaded, ${droppedFiles} dropped`
         }
         isComplete={isComplete}
         hasError={hasError}
         onClose={() => {
           setShowLogsDialog(false);
-          setIsComplete(false);
           setHasError(false);
         }}
-        onCancel={uploading ? handleCancelUpload : undefined}
-        estimatedTimeRemaining={estimatedTimeRemaining}
+        onCancel={uploading || isProcessing ? handleCancelUpload : undefined}
+        estimatedTimeRemaining={null}
+        canClose={!uploading && isProcessing}
       />
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+const PARSE_RESUME_URL = 'https://olkbhjyfpdvcovtuekzt.supabase.co/functions/v1/parse-resume';
+const ACCEPTED_TYPES = '.pdf,.doc,.docx,.rtf,.odt,.html,.htm,.txt,.png,.jpg,.jpeg,.webp';
+
+interface ResumeVersionUploadButtonProps {
+  profileId: string;
+  onUploaded: () => void;
+}
+
+// Sends an updated CV for an existing candidate through parse-resume, which re-extracts
+// it into the same profile and records the previous file as an older version
+export const ResumeVersionUploadButton: React.FC<ResumeVersionUploadButtonProps> = ({ profileId, onUploaded }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File) => {
+    setUploading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) throw new Error('No active session found');
+
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('fileName', file.name);
+      formData.append('profileId', profileId);
+
+      const response = await fetch(PARSE_RESUME_URL, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+        body: formData,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error('Failed to start processing');
+      }
+
+      // The function streams server-sent events; only the final complete/error event matters here
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let result: { message: string; duplicate?: boolean } | null = null;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          const name = event.match(/^event: (.*)$/m)?.[1];
+          const data = event.match(/^data: (.*)$/m)?.[1];
+          if (!name || !data) continue;
+
+          if (name === 'error') throw new Error(JSON.parse(data).message);
+          if (name === 'complete') result = JSON.parse(data);
+        }
+      }
+
+      if (!result) throw new Error('No response received');
+
+      toast({
+        title: result.duplicate ? 'No Changes' : 'New Version Uploaded',
+        description: result.message,
+      });
+      if (!result.duplicate) onUploaded();
+    } catch (error) {
+      toast({
+        title: 'Upload Failed',
+        description: error instanceof Error ? error.message : 'Failed to upload new resume version',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading}
+        className="gap-2 whitespace-nowrap"
+      >
+        {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        {uploading ? 'Processing...' : 'New Version'}
+      </Button>
+    </>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { openResumeFile } from '@/lib/resumeFiles';
+
+type ResumeVersion = Tables<'resume_versions'>;
+
+interface ResumeVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileId: string;
+  candidateName: string;
+  // Blind review: identity fields are left out of the comparison and files stay closed
+  blindMode?: boolean;
+}
+
+// Fields captured in resume_versions.snapshot, in display order
+const SNAPSHOT_FIELDS: { key: string; label: string }[] = [
+  { key: 'full_name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone_number', label: 'Phone' },
+  { key: 'location', label: 'Location' },
+  { key: 'job_title', label: 'Job Title' },
+  { key: 'years_of_experience', label: 'Years of Experience' },
+  { key: 'sector', label: 'Sector' },
+  { key: 'skills', label: 'Skills' },
+  { key: 'experience', label: 'Experience' },
+  { key: 'education', label: 'Education' },
+  { key: 'resume_text', label: 'Resume Text' },
+];
+
+const IDENTITY_FIELDS = ['full_name', 'email', 'phone_number', 'location'];
+
+interface FieldDiff {
+  label: string;
+  before: string;
+  after: string;
+  added?: string[];
+  removed?: string[];
+}
+
+const snapshotValue = (snapshot: Json, key: string): Json | undefined =>
+  snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot) ? snapshot[key] : undefined;
+
+const display = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  return String(value);
+};
+
+// Only changed fields are listed; lists show what was added and removed, and the full
+// resume text is summarized by length since it rarely fits side by side
+const diffVersions = (from: ResumeVersion, to: ResumeVersion, blindMode: boolean): FieldDiff[] =>
+  SNAPSHOT_FIELDS.flatMap(({ key, label }) => {
+    if (blindMode && IDENTITY_FIELDS.includes(key)) return [];
+    const before = snapshotValue(from.snapshot, key);
+    const after = snapshotValue(to.snapshot, key);
+    if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) return [];
+
+    if (Array.isArray(before) || Array.isArray(after)) {
+      const beforeItems = (Array.isArray(before) ? before : []).map(String);
+      const afterItems = (Array.isArray(after) ? after : []).map(String);
+      return [{
+        label,
+        before: display(before),
+        after: display(after),
+        added: afterItems.filter(item => !beforeItems.includes(item)),
+        removed: beforeItems.filter(item => !afterItems.includes(item)),
+      }];
+    }
+
+    if (key === 'resume_text') {
+      const length = (value: Json | undefined) => (typeof value === 'string' ? value.length : 0);
+      return [{ label, before: `${length(before)} characters`, after: `${length(after)} characters` }];
+    }
+
+    return [{ label, before: display(before), after: display(after) }];
+  });
+
+export const ResumeVersionsDialog: React.FC<ResumeVersionsDialogProps> = ({
+  open,
+  onOpenChange,
+  profileId,
+  candidateName,
+  blindMode = false,
+}) => {
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchVersions = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('resume_versions')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('version_number', { ascending: false });
+
+      if (error) {
+        console.error('Failed to fetch resume versions:', error);
+      }
+      const rows = data || [];
+      setVersions(rows);
+      // Compare the latest version against the one before it by default
+      setToId(rows[0]?.id ?? '');
+      setFromId(rows[1]?.id ?? rows[0]?.id ?? '');
+      setLoading(false);
+    };
+
+    fetchVersions();
+  }, [open, profileId]);
+
+  const openFile = (fileUrl: string) =>
+    openResumeFile(fileUrl).catch((error) => console.error('Failed to open resume file:', error));
+
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const diff = from && to && from.id !== to.id ? diffVersions(from, to, blindMode) : [];
+  const latestVersion = versions[0]?.version_number;
+
+  const versionLabel = (version: ResumeVersion) =>
+    `Version ${version.version_number} · ${new Date(version.created_at).toLocaleDateString()}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Resume History</DialogTitle>
+          <DialogDescription>
+            Every resume uploaded for {candidateName}. The latest version is what the profile shows today.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No resume versions recorded yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                  <div>
+                    <span className="font-medium">{versionLabel(version)}</span>
+                    {version.version_number === latestVersion && (
+                      <span className="ml-2 px-2 py-0.5 bg-primary/10 text-primary rounded-full text-xs font-medium">
+                        Current
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2"
+                    disabled={!version.resume_file_url || blindMode}
+                    onClick={() => version.resume_file_url && openFile(version.resume_file_url)}
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                    View File
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-sm font-medium mb-2 block">Compare</Label>
+                    <Select value={fromId} onValueChange={setFromId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.id}>
+                            {versionLabel(version)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium mb-2 block">With</Label>
+                    <Select value={toId} onValueChange={setToId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.id}>
+                            {versionLabel(version)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <ScrollArea className="h-[300px] rounded-lg border">
+                  {from?.id === to?.id ? (
+                    <p className="p-4 text-sm text-muted-foreground">Select two different versions to compare.</p>
+                  ) : diff.length === 0 ? (
+                    <p className="p-4 text-sm text-muted-foreground">No extracted fields changed between these versions.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {diff.map((field) => (
+                        <div key={field.label} className="p-3 text-sm">
+                          <div className="font-medium mb-1">{field.label}</div>
+                          {field.added || field.removed ? (
+                            <div className="flex flex-wrap gap-1">
+                              {field.removed?.map((item) => (
+                                <span key={`-${item}`} className="px-2 py-0.5 bg-destructive/10 text-destructive rounded-full text-xs line-through">
+                                  {item}
+                                </span>
+                              ))}
+                              {field.added?.map((item) => (
+                                <span key={`+${item}`} className="px-2 py-0.5 bg-green-500/10 text-green-600 rounded-full text-xs">
+                                  {item}
+                                </span>
+                              ))}
+                            </div>
+                          ) : (
+                            <div className="grid grid-cols-2 gap-3">
+                              <div className="rounded bg-destructive/5 p-2 text-muted-foreground break-words">{field.before}</div>
+                              <div className="rounded bg-green-500/5 p-2 break-words">{field.after}</div>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
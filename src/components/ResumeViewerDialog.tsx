@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PdfResumeView } from '@/components/PdfResumeView';
+import { useToast } from '@/hooks/use-toast';
+import { docxToParagraphs, type DocxParagraph } from '@/lib/docx';
+import { findHighlights, quotePattern } from '@/lib/resumeHighlights';
+import { createResumeSignedUrl, downloadResume, resumeFileKind, type ResumeFileKind } from '@/lib/resumeFiles';
+
+// A resume passage the match analysis based a strength, concern or checklist requirement on
+export type ResumeEvidence = {
+  kind: 'strength' | 'concern' | 'requirement';
+  point: string;
+  quote: string;
+};
+
+interface ResumeViewerDialogProps {
+  // The dialog is open while a profile is set
+  profileId: string | null;
+  onClose: () => void;
+  evidence?: ResumeEvidence[];
+}
+
+interface LoadedResume {
+  name: string | null;
+  kind: ResumeFileKind;
+  signedUrl: string | null;
+  paragraphs: DocxParagraph[] | null;
+  text: string | null;
+}
+
+const MARK_CLASSES: Record<ResumeEvidence['kind'], string> = {
+  strength: 'bg-green-200 text-green-900 dark:bg-green-800 dark:text-green-50',
+  concern: 'bg-orange-200 text-orange-900 dark:bg-orange-800 dark:text-orange-50',
+  requirement: 'bg-sky-200 text-sky-900 dark:bg-sky-800 dark:text-sky-50',
+};
+
+const EVIDENCE_ICONS: Record<ResumeEvidence['kind'], string> = {
+  strength: '✓',
+  concern: '⚠',
+  requirement: '☑',
+};
+
+const NO_EVIDENCE: ResumeEvidence[] = [];
+
+const HighlightedText: React.FC<{ text: string; patterns: (RegExp | null)[]; evidence: ResumeEvidence[] }> = ({ text, patterns, evidence }) => {
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const { start, end, index } of findHighlights(text, patterns)) {
+    if (start > cursor) nodes.push(text.slice(cursor, start));
+    nodes.push(
+      <mark key={start} data-evidence={index} title={evidence[index].point} className={`rounded px-0.5 ${MARK_CLASSES[evidence[index].kind]}`}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) nodes.push(text.slice(cursor));
+  return <>{nodes}</>;
+};
+
+export const ResumeViewerDialog: React.FC<ResumeViewerDialogProps> = ({ profileId, onClose, evidence = NO_EVIDENCE }) => {
+  const [loading, setLoading] = useState(false);
+  const [resume, setResume] = useState<LoadedResume | null>(null);
+  const [tab, setTab] = useState('document');
+  const [focusedEvidence, setFocusedEvidence] = useState<number | null>(null);
+  const [pdfMatches, setPdfMatches] = useState<number[]>([]);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const patterns = useMemo(() => evidence.map((item) => quotePattern(item.quote)), [evidence]);
+
+  useEffect(() => {
+    setPdfMatches([]);
+    if (!profileId) {
+      setResume(null);
+      return;
+    }
+
+    const loadResume = async () => {
+      setLoading(true);
+      try {
+        const { data: profile, error } = await supabase
+          .from('profiles')
+          .select('full_name, resume_file_url, resume_text')
+          .eq('id', profileId)
+          .single();
+        if (error) throw error;
+
+        const fileUrl = profile.resume_file_url;
+        const kind = fileUrl ? resumeFileKind(fileUrl) : 'other';
+        const [signedUrl, paragraphs] = await Promise.all([
+          fileUrl ? createResumeSignedUrl(fileUrl) : Promise.resolve(null),
+          fileUrl && kind === 'docx'
+            ? downloadResume(fileUrl)
+              .then((blob) => blob.arrayBuffer())
+              .then(docxToParagraphs)
+              .catch((docxError) => {
+                console.error('Failed to render DOCX resume:', docxError);
+                return null;
+              })
+            : Promise.resolve(null),
+        ]);
+
+        setResume({ name: profile.full_name, kind, signedUrl, paragraphs, text: profile.resume_text });
+        const hasDocument = (kind === 'docx' && paragraphs) || ((kind === 'pdf' || kind === 'image') && signedUrl);
+        setTab(hasDocument ? 'document' : 'text');
+      } catch (error) {
+        console.error('Error loading resume:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to open resume',
+          variant: 'destructive',
+        });
+        onClose();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadResume();
+  }, [profileId, toast, onClose]);
+
+  // Passages are marked in the DOCX paragraphs and the PDF text layer. Images have no text to
+  // mark, and scanned PDFs none to match, so those passages are shown in the extracted text.
+  const documentMatches = new Set(
+    resume?.kind === 'pdf'
+      ? pdfMatches
+      : (resume?.paragraphs ?? []).flatMap((paragraph) => findHighlights(paragraph.text, patterns).map((highlight) => highlight.index))
+  );
+
+  const showEvidence = (index: number) => {
+    setTab(documentMatches.has(index) ? 'document' : 'text');
+    setFocusedEvidence(index);
+  };
+
+  // Scroll once the tab holding the highlight has rendered
+  useEffect(() => {
+    if (focusedEvidence === null) return;
+    contentRef.current
+      ?.querySelector(`[data-evidence="${focusedEvidence}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFocusedEvidence(null);
+  }, [focusedEvidence, tab]);
+
+  const matchedIndexes = new Set([
+    ...documentMatches,
+    ...findHighlights(resume?.text ?? '', patterns).map((highlight) => highlight.index),
+  ]);
+
+  return (
+    <Dialog open={!!profileId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{resume?.name || 'Resume'}</DialogTitle>
+          <DialogDescription>
+            {evidence.length === 0
+              ? 'Original resume and the text extracted from it'
+              : resume?.kind === 'image' && resume.signedUrl
+                ? 'Passages behind the match strengths, concerns and requirements are highlighted in the extracted text; the original image is shown without highlights'
+                : 'Passages behind the match strengths, concerns and requirements are highlighted'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !resume ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="flex flex-1 gap-4 min-h-0">
+            <Tabs value={tab} onValueChange={setTab} className="flex flex-1 flex-col min-h-0">
+              <div className="flex items-center justify-between gap-2">
+                <TabsList>
+                  <TabsTrigger value="document" disabled={!resume.signedUrl}>Document</TabsTrigger>
+                  <TabsTrigger value="text" disabled={!resume.text}>Extracted Text</TabsTrigger>
+                </TabsList>
+                {resume.signedUrl && (
+                  <Button variant="ghost" size="sm" className="gap-2" onClick={() => window.open(resume.signedUrl!, '_blank')}>
+                    <ExternalLink className="h-4 w-4" />
+                    Open File
+                  </Button>
+                )}
+              </div>
+
+              <div ref={contentRef} className="flex-1 min-h-0 mt-2">
+                {/* Kept mounted so the PDF is rendered once and its passages can be found from either tab */}
+                <TabsContent value="document" forceMount className="h-full mt-0 data-[state=inactive]:hidden">
+                  {resume.kind === 'pdf' && resume.signedUrl && (
+                    <PdfResumeView url={resume.signedUrl} evidence={evidence} patterns={patterns} onMatches={setPdfMatches} />
+                  )}
+                  {resume.kind === 'image' && resume.signedUrl && (
+                    <div className="h-full overflow-auto rounded-md border bg-muted/30 p-4">
+                      <img src={resume.signedUrl} alt="Resume" className="mx-auto max-w-full" />
+                    </div>
+                  )}
+                  {resume.kind === 'docx' && resume.paragraphs && (
+                    <div className="h-full overflow-auto rounded-md border bg-background p-6 space-y-2 text-sm">
+                      {resume.paragraphs.map((paragraph, i) => {
+                        const content = <HighlightedText text={paragraph.text} patterns={patterns} evidence={evidence} />;
+                        if (paragraph.kind === 'heading') return <h3 key={i} className="pt-2 text-base font-semibold">{content}</h3>;
+                        if (paragraph.kind === 'list') return <p key={i} className="pl-4 before:content-['•'] before:-ml-3 before:mr-2 whitespace-pre-wrap">{content}</p>;
+                        return <p key={i} className="whitespace-pre-wrap">{content}</p>;
+                      })}
+                    </div>
+                  )}
+                  {resume.kind === 'other' && (
+                    <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                      This file type cannot be previewed; open the file or read the extracted text
+                    </div>
+                  )}
+                </TabsContent>
+                <TabsContent value="text" className="h-full mt-0">
+                  <div className="h-full overflow-auto rounded-md border bg-background p-6 text-sm whitespace-pre-wrap leading-relaxed">
+                    <HighlightedText text={resume.text ?? ''} patterns={patterns} evidence={evidence} />
+                  </div>
+                </TabsContent>
+              </div>
+            </Tabs>
+
+            {evidence.length > 0 && (
+              <div className="w-72 shrink-0 overflow-auto space-y-2">
+                <p className="text-sm font-bold text-muted-foreground">Match Evidence</p>
+                {evidence.map((item, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => showEvidence(index)}
+                    disabled={!matchedIndexes.has(index)}
+                    className="w-full rounded-md border p-2 text-left text-xs transition-colors hover:bg-muted disabled:cursor-default disabled:opacity-60 disabled:hover:bg-transparent"
+                  >
+                    <span className={`mb-1 inline-block rounded px-1.5 py-0.5 font-medium ${MARK_CLASSES[item.kind]}`}>
+                      {EVIDENCE_ICONS[item.kind]} {item.point}
+                    </span>
+                    <span className="block text-muted-foreground">
+                      {matchedIndexes.has(index) ? `“${item.quote}”` : 'Passage not found in this resume'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
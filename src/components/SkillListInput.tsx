@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface SkillListInputProps {
+  id: string;
+  skills: string[];
+  onChange: (skills: string[]) => void;
+  placeholder: string;
+  disabled?: boolean;
+}
+
+// Skills entered one at a time, shown as removable chips; Enter adds the typed skill
+export const SkillListInput: React.FC<SkillListInputProps> = ({ id, skills, onChange, placeholder, disabled }) => {
+  const [draft, setDraft] = useState('');
+
+  const addSkill = () => {
+    const skill = draft.trim();
+    if (!skill) return;
+    if (!skills.some(s => s.toLowerCase() === skill.toLowerCase())) {
+      onChange([...skills, skill]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div>
+      {skills.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {skills.map((skill) => (
+            <span
+              key={skill}
+              className="inline-flex items-center gap-1 px-2 py-0.5 bg-primary/10 text-primary rounded-full text-xs font-medium"
+            >
+              {skill}
+              <button
+                type="button"
+                onClick={() => onChange(skills.filter(s => s !== skill))}
+                disabled={disabled}
+                className="hover:text-destructive"
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addSkill();
+            }
+          }}
+          placeholder={placeholder}
+          disabled={disabled}
+        />
+        <Button type="button" variant="outline" onClick={addSkill} disabled={disabled || !draft.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
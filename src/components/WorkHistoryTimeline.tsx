@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Building2, ChevronDown, ChevronUp, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tables } from '@/integrations/supabase/types';
+
+type Position = Tables<'candidate_positions'>;
+
+interface WorkHistoryTimelineProps {
+  positions: Position[];
+}
+
+// Dates are stored as the first of the month, so only month and year are meaningful
+const formatMonth = (date: string | null) => {
+  if (!date) return null;
+  const [year, month] = date.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+const formatTenure = (position: Position) => {
+  if (!position.start_date) return null;
+  const start = new Date(position.start_date);
+  const end = position.end_date ? new Date(position.end_date) : position.is_current ? new Date() : null;
+  if (!end) return null;
+
+  const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+  if (months < 1) return null;
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years && `${years} yr${years > 1 ? 's' : ''}`, rest && `${rest} mo`].filter(Boolean).join(' ');
+};
+
+const formatRange = (position: Position) => {
+  const start = formatMonth(position.start_date);
+  const end = position.is_current ? 'Present' : formatMonth(position.end_date);
+  if (!start && !end) return null;
+  return `${start ?? '?'} – ${end ?? '?'}`;
+};
+
+export const WorkHistoryTimeline: React.FC<WorkHistoryTimelineProps> = ({ positions }) => {
+  const [open, setOpen] = useState(false);
+
+  if (positions.length === 0) return null;
+
+  const sorted = [...positions].sort((a, b) => a.position_index - b.position_index);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-2">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 px-2 text-muted-foreground">
+          <Building2 className="h-4 w-4" />
+          Work history ({positions.length})
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="relative ml-4 mt-2 border-l border-border">
+          {sorted.map((position) => {
+            const range = formatRange(position);
+            const tenure = formatTenure(position);
+            return (
+              <li key={position.id} className="mb-4 ml-4 last:mb-0">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                    position.is_current ? 'bg-primary' : 'bg-muted-foreground/40'
+                  }`}
+                />
+                <div className="text-sm font-semibold text-foreground">
+                  {position.title || 'Untitled role'}
+                  {position.company && <span className="font-normal text-muted-foreground"> at {position.company}</span>}
+                </div>
+                {(range || tenure) && (
+                  <div className="text-xs text-muted-foreground">
+                    {range}
+                    {tenure && <span> · {tenure}</span>}
+                  </div>
+                )}
+                {position.location && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <MapPin className="h-3 w-3" />
+                    {position.location}
+                  </div>
+                )}
+                {position.description && (
+                  <p className="mt-1 text-sm text-muted-foreground">{position.description}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+
+const STORAGE_KEY = 'blind-review-mode';
+
+// Blind review is a per-browser preference shared by every candidate list, so a
+// hiring manager who turns it on stays blind when moving between pages.
+export const useBlindMode = () => {
+  const [blindMode, setBlindModeState] = useState(() => localStorage.getItem(STORAGE_KEY) === 'true');
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setBlindModeState(event.newValue === 'true');
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const setBlindMode = (enabled: boolean) => {
+    localStorage.setItem(STORAGE_KEY, String(enabled));
+    setBlindModeState(enabled);
+  };
+
+  return { blindMode, setBlindMode };
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type IngestionJob = Tables<'ingestion_jobs'>;
+export type IngestionItem = Pick<
+  Tables<'ingestion_items'>,
+  'id' | 'file_name' | 'status' | 'last_error' | 'attempts' | 'profile_id' | 'parent_item_id' | 'updated_at'
+>;
+
+const POLL_INTERVAL_MS = 3000;
+const ITEM_COLUMNS = 'id, file_name, status, last_error, attempts, profile_id, parent_item_id, updated_at';
+
+// Polls an ingestion job and its items. Only items updated since the previous poll are
+// fetched, so large imports stay cheap to watch; `onItemChange` fires once per status change.
+export const useIngestionJob = (
+  jobId: string | null,
+  onItemChange?: (item: IngestionItem, previous: IngestionItem | undefined) => void
+) => {
+  const [job, setJob] = useState<IngestionJob | null>(null);
+  const [items, setItems] = useState<IngestionItem[]>([]);
+  const onItemChangeRef = useRef(onItemChange);
+  onItemChangeRef.current = onItemChange;
+
+  useEffect(() => {
+    setJob(null);
+    setItems([]);
+    if (!jobId) return;
+
+    let stopped = false;
+    let since: string | null = null;
+    const known = new Map<string, IngestionItem>();
+
+    const poll = async () => {
+      const { data: jobData, error: jobError } = await supabase
+        .from('ingestion_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (stopped) return;
+      if (jobError) {
+        console.error('Error polling ingestion job:', jobError);
+        return;
+      }
+      setJob(jobData);
+
+      let query = supabase
+        .from('ingestion_items')
+        .select(ITEM_COLUMNS)
+        .eq('job_id', jobId)
+        .order('updated_at', { ascending: true })
+        .limit(1000);
+      if (since) query = query.gte('updated_at', since);
+
+      const { data: changed, error: itemsError } = await query;
+      if (stopped) return;
+      if (itemsError) {
+        console.error('Error polling ingestion items:', itemsError);
+        return;
+      }
+
+      let dirty = false;
+      for (const item of changed || []) {
+        const previous = known.get(item.id);
+        if (previous && previous.status === item.status && previous.updated_at === item.updated_at) continue;
+        known.set(item.id, item);
+        dirty = true;
+        if (!previous || previous.status !== item.status) {
+          onItemChangeRef.current?.(item, previous);
+        }
+      }
+      if (changed && changed.length > 0) {
+        since = changed[changed.length - 1].updated_at;
+      }
+      if (dirty) setItems(Array.from(known.values()));
+
+      if (jobData && (jobData.status === 'completed' || jobData.status === 'cancelled')) {
+        stopped = true;
+        clearInterval(interval);
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [jobId]);
+
+  return { job, items };
+};
@@ -43,6 +43,59 @@ export type Database = {
           },
         ]
       }
+      candidate_education: {
+        Row: {
+          created_at: string
+          degree: string | null
+          degree_level: string
+          education_index: number
+          end_year: number | null
+          field_of_study: string | null
+          grade: string | null
+          id: string
+          institution: string | null
+          profile_id: string
+          start_year: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          degree?: string | null
+          degree_level?: string
+          education_index?: number
+          end_year?: number | null
+          field_of_study?: string | null
+          grade?: string | null
+          id?: string
+          institution?: string | null
+          profile_id: string
+          start_year?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          degree?: string | null
+          degree_level?: string
+          education_index?: number
+          end_year?: number | null
+          field_of_study?: string | null
+          grade?: string | null
+          id?: string
+          institution?: string | null
+          profile_id?: string
+          start_year?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_education_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       candidate_matches: {
         Row: {
           candidate_email: string | null
@@ -52,13 +105,16 @@ export type Database = {
           candidate_phone: string | null
           company: string | null
           created_at: string
+          evidence: Json
           experience_years: number | null
           id: string
           job_role: string | null
           key_strengths: string[]
           match_score: number
+          matched_passages: Json
           potential_concerns: string[]
           reasoning: string
+          requirement_results: Json
           search_id: string
         }
         Insert: {
@@ -69,13 +125,16 @@ export type Database = {
           candidate_phone?: string | null
           company?: string | null
           created_at?: string
+          evidence?: Json
           experience_years?: number | null
           id?: string
           job_role?: string | null
           key_strengths?: string[]
           match_score: number
+          matched_passages?: Json
           potential_concerns?: string[]
           reasoning: string
+          requirement_results?: Json
           search_id: string
         }
         Update: {
@@ -86,13 +145,16 @@ export type Database = {
           candidate_phone?: string | null
           company?: string | null
           created_at?: string
+          evidence?: Json
           experience_years?: number | null
           id?: string
           job_role?: string | null
           key_strengths?: string[]
           match_score?: number
+          matched_passages?: Json
           potential_concerns?: string[]
           reasoning?: string
+          requirement_results?: Json
           search_id?: string
         }
         Relationships: [
@@ -105,114 +167,740 @@ export type Database = {
           },
         ]
       }
+      candidate_positions: {
+        Row: {
+          company: string | null
+          created_at: string
+          description: string | null
+          end_date: string | null
+          id: string
+          is_current: boolean
+          location: string | null
+          position_index: number
+          profile_id: string
+          start_date: string | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          company?: string | null
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          is_current?: boolean
+          location?: string | null
+          position_index?: number
+          profile_id: string
+          start_date?: string | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          company?: string | null
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          is_current?: boolean
+          location?: string | null
+          position_index?: number
+          profile_id?: string
+          start_date?: string | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_positions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_items: {
+        Row: {
+          attempts: number
+          content_hash: string | null
+          cover_letter: string | null
+          created_at: string
+          file_name: string
+          file_size: number | null
+          id: string
+          job_id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          mime_type: string | null
+          parent_item_id: string | null
+          profile_id: string | null
+          sender_email: string | null
+          source: string | null
+          status: string
+          storage_path: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          content_hash?: string | null
+          cover_letter?: string | null
+          created_at?: string
+          file_name: string
+          file_size?: number | null
+          id?: string
+          job_id: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          mime_type?: string | null
+          parent_item_id?: string | null
+          profile_id?: string | null
+          sender_email?: string | null
+          source?: string | null
+          status?: string
+          storage_path: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          content_hash?: string | null
+          cover_letter?: string | null
+          created_at?: string
+          file_name?: string
+          file_size?: number | null
+          id?: string
+          job_id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          mime_type?: string | null
+          parent_item_id?: string | null
+          profile_id?: string | null
+          sender_email?: string | null
+          source?: string | null
+          status?: string
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ingestion_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingestion_items_parent_item_id_fkey"
+            columns: ["parent_item_id"]
+            isOneToOne: false
+            referencedRelation: "ingestion_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingestion_items_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_jobs: {
+        Row: {
+          created_at: string
+          failed_items: number
+          id: string
+          processed_items: number
+          skipped_items: number
+          status: string
+          succeeded_items: number
+          total_items: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          failed_items?: number
+          id?: string
+          processed_items?: number
+          skipped_items?: number
+          status?: string
+          succeeded_items?: number
+          total_items?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          failed_items?: number
+          id?: string
+          processed_items?: number
+          skipped_items?: number
+          status?: string
+          succeeded_items?: number
+          total_items?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       job_searches: {
         Row: {
           created_at: string
+          filters: Json
           id: string
           job_description: string
+          job_id: string | null
+          requirements: Json
           total_candidates: number
           user_id: string
         }
         Insert: {
           created_at?: string
+          filters?: Json
           id?: string
           job_description: string
+          job_id?: string | null
+          requirements?: Json
           total_candidates?: number
           user_id: string
         }
         Update: {
           created_at?: string
+          filters?: Json
           id?: string
           job_description?: string
+          job_id?: string | null
+          requirements?: Json
           total_candidates?: number
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "job_searches_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          created_at: string
+          department: string | null
+          description: string | null
+          id: string
+          location: string | null
+          max_years: number | null
+          min_years: number | null
+          must_have_skills: string[]
+          nice_to_have_skills: string[]
+          remote_policy: string
+          salary_currency: string | null
+          salary_max: number | null
+          salary_min: number | null
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          description?: string | null
+          id?: string
+          location?: string | null
+          max_years?: number | null
+          min_years?: number | null
+          must_have_skills?: string[]
+          nice_to_have_skills?: string[]
+          remote_policy?: string
+          salary_currency?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          description?: string | null
+          id?: string
+          location?: string | null
+          max_years?: number | null
+          min_years?: number | null
+          must_have_skills?: string[]
+          nice_to_have_skills?: string[]
+          remote_policy?: string
+          salary_currency?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      profile_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string
+          embedding_model: string
+          id: string
+          profile_id: string
+          section: string
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding: string
+          embedding_model: string
+          id?: string
+          profile_id: string
+          section: string
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string
+          embedding_model?: string
+          id?: string
+          profile_id?: string
+          section?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_chunks_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          chunks_model: string | null
+          content_hash: string | null
+          cover_letter: string | null
           created_at: string | null
           education: string | null
           email: string | null
           embedding: string | null
+          embedding_model: string | null
+          embedding_source_hash: string | null
           experience: string | null
           full_name: string | null
           id: string
           job_title: string | null
           location: string | null
+          needs_ai_enrichment: boolean
+          original_resume_text: string | null
           phone_number: string | null
           resume_file_url: string | null
+          resume_language: string | null
           resume_text: string | null
+          search_vector: unknown | null
           sector: string | null
+          skill_ids: string[]
           skills: string[] | null
+          source: string | null
           user_id: string | null
           years_of_experience: number | null
         }
         Insert: {
+          chunks_model?: string | null
+          content_hash?: string | null
+          cover_letter?: string | null
           created_at?: string | null
           education?: string | null
           email?: string | null
           embedding?: string | null
+          embedding_model?: string | null
+          embedding_source_hash?: string | null
           experience?: string | null
           full_name?: string | null
           id?: string
           job_title?: string | null
           location?: string | null
+          needs_ai_enrichment?: boolean
+          original_resume_text?: string | null
           phone_number?: string | null
           resume_file_url?: string | null
+          resume_language?: string | null
           resume_text?: string | null
+          search_vector?: never
           sector?: string | null
+          skill_ids?: string[]
           skills?: string[] | null
+          source?: string | null
           user_id?: string | null
           years_of_experience?: number | null
         }
         Update: {
+          chunks_model?: string | null
+          content_hash?: string | null
+          cover_letter?: string | null
           created_at?: string | null
           education?: string | null
           email?: string | null
           embedding?: string | null
+          embedding_model?: string | null
+          embedding_source_hash?: string | null
           experience?: string | null
           full_name?: string | null
           id?: string
           job_title?: string | null
           location?: string | null
+          needs_ai_enrichment?: boolean
+          original_resume_text?: string | null
           phone_number?: string | null
           resume_file_url?: string | null
+          resume_language?: string | null
           resume_text?: string | null
+          search_vector?: never
           sector?: string | null
+          skill_ids?: string[]
           skills?: string[] | null
+          source?: string | null
           user_id?: string | null
           years_of_experience?: number | null
         }
         Relationships: []
       }
+      quarantined_candidates: {
+        Row: {
+          content_hash: string | null
+          created_at: string
+          extracted: Json
+          file_name: string
+          id: string
+          missing_fields: string[]
+          profile_id: string | null
+          resume_file_url: string | null
+          resume_text: string | null
+          reviewed_at: string | null
+          source: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string
+          extracted?: Json
+          file_name: string
+          id?: string
+          missing_fields?: string[]
+          profile_id?: string | null
+          resume_file_url?: string | null
+          resume_text?: string | null
+          reviewed_at?: string | null
+          source?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string
+          extracted?: Json
+          file_name?: string
+          id?: string
+          missing_fields?: string[]
+          profile_id?: string | null
+          resume_file_url?: string | null
+          resume_text?: string | null
+          reviewed_at?: string | null
+          source?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quarantined_candidates_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resume_versions: {
+        Row: {
+          content_hash: string | null
+          created_at: string
+          id: string
+          profile_id: string
+          resume_file_url: string | null
+          snapshot: Json
+          user_id: string | null
+          version_number: number
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string
+          id?: string
+          profile_id: string
+          resume_file_url?: string | null
+          snapshot: Json
+          user_id?: string | null
+          version_number: number
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string
+          id?: string
+          profile_id?: string
+          resume_file_url?: string | null
+          snapshot?: Json
+          user_id?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_versions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          id: string
+          skill_id: string
+          user_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          id?: string
+          skill_id: string
+          user_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          id?: string
+          skill_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_aliases_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_synonym_defaults: {
+        Row: {
+          alias_key: string
+          canonical_name: string
+        }
+        Insert: {
+          alias_key: string
+          canonical_name: string
+        }
+        Update: {
+          alias_key?: string
+          canonical_name?: string
+        }
+        Relationships: []
+      }
+      skills: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skills_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_skill_alias: {
+        Args: {
+          p_alias: string
+          p_skill_id: string
+        }
+        Returns: number
+      }
+      claim_ingestion_items: {
+        Args: {
+          p_job_id: string
+          p_limit: number
+          p_lock_timeout_seconds?: number
+        }
+        Returns: {
+          attempts: number
+          content_hash: string | null
+          cover_letter: string | null
+          created_at: string
+          file_name: string
+          file_size: number | null
+          id: string
+          job_id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          mime_type: string | null
+          parent_item_id: string | null
+          profile_id: string | null
+          sender_email: string | null
+          source: string | null
+          status: string
+          storage_path: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "ingestion_items"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      count_matching_profiles: {
+        Args: {
+          filter_user_id: string
+          match_filters: Json
+        }
+        Returns: number
+      }
+      hybrid_match_profiles: {
+        Args: {
+          filter_embedding_model?: string
+          filter_user_id: string
+          match_any_term?: boolean
+          match_count: number
+          match_filters?: Json
+          match_threshold?: number
+          query_embedding: string
+          query_text: string
+          rank_window?: number
+          rrf_k?: number
+        }
+        Returns: {
+          lexical_rank: number
+          profile_id: string
+          score: number
+          semantic_rank: number
+          similarity: number
+          text_rank: number
+        }[]
+      }
+      legacy_resume_objects: {
+        Args: {
+          p_after?: string
+          p_limit?: number
+        }
+        Returns: {
+          name: string
+          owner_id: string
+        }[]
+      }
+      match_profile_chunks: {
+        Args: {
+          chunks_per_profile?: number
+          filter_embedding_model?: string
+          filter_profile_ids?: string[]
+          filter_user_id: string
+          match_count: number
+          match_threshold: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_id: string
+          chunk_index: number
+          content: string
+          profile_id: string
+          profile_similarity: number
+          section: string
+          similarity: number
+        }[]
+      }
       match_profiles: {
         Args: {
+          filter_embedding_model?: string
           filter_user_id: string
           match_count: number
           match_threshold: number
           query_embedding: string
         }
         Returns: {
+          chunks_model: string | null
+          content_hash: string | null
+          cover_letter: string | null
           created_at: string | null
           education: string | null
           email: string | null
           embedding: string | null
+          embedding_model: string | null
+          embedding_source_hash: string | null
           experience: string | null
           full_name: string | null
           id: string
           job_title: string | null
           location: string | null
+          needs_ai_enrichment: boolean
+          original_resume_text: string | null
           phone_number: string | null
           resume_file_url: string | null
+          resume_language: string | null
           resume_text: string | null
+          search_vector: unknown | null
           sector: string | null
+          skill_ids: string[]
           skills: string[] | null
+          source: string | null
           user_id: string | null
           years_of_experience: number | null
         }[]
@@ -223,6 +911,60 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      merge_skills: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: number
+      }
+      profile_matches_filters: {
+        Args: {
+          match_filters: Json
+          p: Database["public"]["Tables"]["profiles"]["Row"]
+        }
+        Returns: boolean
+      }
+      profile_search_document: {
+        Args: {
+          p_job_title: string
+          p_resume_text: string
+          p_skills: string[]
+        }
+        Returns: unknown
+      }
+      refresh_ingestion_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          created_at: string
+          failed_items: number
+          id: string
+          processed_items: number
+          skipped_items: number
+          status: string
+          succeeded_items: number
+          total_items: number
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "ingestion_jobs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      renormalize_profile_skills: {
+        Args: never
+        Returns: number
+      }
+      rewrite_resume_path: {
+        Args: {
+          p_new_path: string
+          p_old_path: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
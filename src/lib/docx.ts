@@ -0,0 +1,39 @@
+// DOCX to paragraphs for the in-app resume viewer. Only structure that helps reading a
+// resume is kept: headings, list items and plain paragraphs.
+import JSZip from 'jszip';
+
+export interface DocxParagraph {
+  kind: 'heading' | 'list' | 'paragraph';
+  text: string;
+}
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const paragraphText = (paragraph: Element) => {
+  let text = '';
+  paragraph.querySelectorAll('*').forEach((node) => {
+    if (node.namespaceURI !== W_NAMESPACE) return;
+    if (node.localName === 't') text += node.textContent ?? '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+};
+
+export async function docxToParagraphs(file: ArrayBuffer): Promise<DocxParagraph[]> {
+  const zip = await JSZip.loadAsync(file);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error('Could not find document.xml in DOCX file');
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+  return Array.from(xml.getElementsByTagNameNS(W_NAMESPACE, 'p'))
+    .map((paragraph): DocxParagraph => {
+      const style = paragraph.getElementsByTagNameNS(W_NAMESPACE, 'pStyle')[0]?.getAttributeNS(W_NAMESPACE, 'val') ?? '';
+      const isList = paragraph.getElementsByTagNameNS(W_NAMESPACE, 'numPr').length > 0;
+      return {
+        kind: /^(heading|title)/i.test(style) ? 'heading' : isList || /list/i.test(style) ? 'list' : 'paragraph',
+        text: paragraphText(paragraph),
+      };
+    })
+    .filter((paragraph) => paragraph.text.trim().length > 0);
+}
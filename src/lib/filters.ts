@@ -0,0 +1,52 @@
+import { Json } from '@/integrations/supabase/types';
+
+// Hard filters for a matching run, as sent to match-candidates and stored on job_searches
+export type CandidateFilters = {
+  location?: string;
+  minYears?: number;
+  sector?: string;
+  skills?: string[];
+};
+
+// The filter panel's form state; number inputs hand back strings
+export type CandidateFilterDraft = {
+  location: string;
+  minYears: string;
+  sector: string;
+  skills: string[];
+};
+
+export const EMPTY_FILTER_DRAFT: CandidateFilterDraft = {
+  location: '',
+  minYears: '',
+  sector: '',
+  skills: [],
+};
+
+export const toCandidateFilters = (value: Json): CandidateFilters =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as unknown as CandidateFilters) : {};
+
+export const filtersFromDraft = (draft: CandidateFilterDraft): CandidateFilters => {
+  const minYears = Number(draft.minYears);
+  return {
+    ...(draft.location.trim() && { location: draft.location.trim() }),
+    ...(draft.minYears.trim() && Number.isFinite(minYears) && minYears > 0 && { minYears }),
+    ...(draft.sector.trim() && { sector: draft.sector.trim() }),
+    ...(draft.skills.length > 0 && { skills: draft.skills }),
+  };
+};
+
+export const draftFromFilters = (filters: CandidateFilters): CandidateFilterDraft => ({
+  location: filters.location ?? '',
+  minYears: filters.minYears !== undefined ? String(filters.minYears) : '',
+  sector: filters.sector ?? '',
+  skills: filters.skills ?? [],
+});
+
+export const candidateFilterLabels = (filters: CandidateFilters): string[] =>
+  [
+    filters.location && `Location: ${filters.location}`,
+    filters.minYears !== undefined && `${filters.minYears}+ years`,
+    filters.sector && `Sector: ${filters.sector}`,
+    ...(filters.skills ?? []).map((skill) => `Skill: ${skill}`),
+  ].filter((label): label is string => !!label);
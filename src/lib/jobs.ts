@@ -0,0 +1,37 @@
+import { Tables } from '@/integrations/supabase/types';
+
+export type Job = Tables<'jobs'>;
+
+export const REMOTE_POLICY_LABELS: Record<string, string> = {
+  onsite: 'On-site',
+  hybrid: 'Hybrid',
+  remote: 'Remote',
+};
+
+export const JOB_STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  on_hold: 'On Hold',
+  closed: 'Closed',
+};
+
+export function yearsRangeLabel(job: Pick<Job, 'min_years' | 'max_years'>): string | null {
+  if (job.min_years !== null && job.max_years !== null) return `${job.min_years}–${job.max_years} yrs`;
+  if (job.min_years !== null) return `${job.min_years}+ yrs`;
+  if (job.max_years !== null) return `Up to ${job.max_years} yrs`;
+  return null;
+}
+
+export function salaryBandLabel(job: Pick<Job, 'salary_min' | 'salary_max' | 'salary_currency'>): string | null {
+  const format = (amount: number) => amount.toLocaleString();
+  const currency = job.salary_currency ? ` ${job.salary_currency}` : '';
+  if (job.salary_min !== null && job.salary_max !== null) return `${format(job.salary_min)}–${format(job.salary_max)}${currency}`;
+  if (job.salary_min !== null) return `From ${format(job.salary_min)}${currency}`;
+  if (job.salary_max !== null) return `Up to ${format(job.salary_max)}${currency}`;
+  return null;
+}
+
+export function workLocationLabel(job: Pick<Job, 'location' | 'remote_policy'>): string {
+  const policy = REMOTE_POLICY_LABELS[job.remote_policy] ?? job.remote_policy;
+  return job.location ? `${policy} · ${job.location}` : policy;
+}
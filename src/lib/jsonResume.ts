@@ -0,0 +1,109 @@
+// Export to the open JSON Resume schema (https://jsonresume.org/schema) used by partner
+// agencies. supabase/functions/_shared/json-resume.ts reads the same documents back in.
+import { Tables } from '@/integrations/supabase/types';
+
+export const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+type ExportableProfile = Tables<'profiles'> & {
+  candidate_positions: Tables<'candidate_positions'>[];
+  candidate_education: Tables<'candidate_education'>[];
+};
+
+export interface JsonResume {
+  $schema: string;
+  basics: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    summary?: string;
+    location?: { city?: string; region?: string };
+  };
+  work: {
+    name?: string;
+    position?: string;
+    location?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+  }[];
+  education: {
+    institution?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+  }[];
+  skills: { name: string }[];
+  // Fields the schema has no place for, so a round trip keeps them
+  meta: {
+    version: string;
+    lastModified?: string;
+    sector?: string;
+    yearsOfExperience?: number;
+  };
+}
+
+// The schema rejects nulls; leave out whatever is not known
+const orUndefined = <T,>(value: T | null) => value ?? undefined;
+
+// Dates are stored as the first of the month; the schema accepts YYYY-MM
+const toMonth = (date: string | null) => date?.slice(0, 7);
+
+// "Berlin, Germany" becomes city Berlin, region Germany
+const toLocation = (location: string | null) => {
+  if (!location) return undefined;
+  const [city, ...rest] = location.split(',').map((part) => part.trim());
+  return rest.length > 0 ? { city, region: rest.join(', ') } : { city };
+};
+
+export function toJsonResume(profile: ExportableProfile): JsonResume {
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: orUndefined(profile.full_name),
+      label: orUndefined(profile.job_title),
+      email: orUndefined(profile.email),
+      phone: orUndefined(profile.phone_number),
+      summary: orUndefined(profile.experience),
+      location: toLocation(profile.location),
+    },
+    work: [...profile.candidate_positions]
+      .sort((a, b) => a.position_index - b.position_index)
+      .map((position) => ({
+        name: orUndefined(position.company),
+        position: orUndefined(position.title),
+        location: orUndefined(position.location),
+        startDate: toMonth(position.start_date),
+        endDate: position.is_current ? undefined : toMonth(position.end_date),
+        summary: orUndefined(position.description),
+      })),
+    education: [...profile.candidate_education]
+      .sort((a, b) => a.education_index - b.education_index)
+      .map((record) => ({
+        institution: orUndefined(record.institution),
+        area: orUndefined(record.field_of_study),
+        studyType: orUndefined(record.degree),
+        startDate: record.start_year ? String(record.start_year) : undefined,
+        endDate: record.end_year ? String(record.end_year) : undefined,
+        score: orUndefined(record.grade),
+      })),
+    skills: (profile.skills ?? []).map((name) => ({ name })),
+    meta: {
+      version: 'v1.0.0',
+      lastModified: orUndefined(profile.created_at),
+      sector: orUndefined(profile.sector),
+      yearsOfExperience: orUndefined(profile.years_of_experience),
+    },
+  };
+}
+
+export function jsonResumeFileName(profile: Tables<'profiles'>): string {
+  const name = (profile.full_name || profile.id)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `${name || profile.id}.resume.json`;
+}
@@ -0,0 +1,31 @@
+import { Json } from '@/integrations/supabase/types';
+import type { ResumeEvidence } from '@/components/ResumeViewerDialog';
+
+// One requirement the job description was parsed into by match-candidates
+export type Requirement = {
+  id: string;
+  text: string;
+  importance: 'must' | 'nice';
+};
+
+// How one candidate measured up against a requirement, with the resume quote showing it
+export type RequirementResult = {
+  requirementId: string;
+  status: 'met' | 'partial' | 'missing';
+  evidence: string | null;
+};
+
+export const toRequirements = (value: Json): Requirement[] =>
+  Array.isArray(value) ? (value as unknown as Requirement[]) : [];
+
+export const toRequirementResults = (value: Json): RequirementResult[] =>
+  Array.isArray(value) ? (value as unknown as RequirementResult[]) : [];
+
+// Requirement quotes join the strength and concern quotes in the resume viewer
+export const requirementEvidence = (requirements: Requirement[], results: RequirementResult[]): ResumeEvidence[] =>
+  results.flatMap((result) => {
+    const requirement = requirements.find((r) => r.id === result.requirementId);
+    return requirement && result.evidence
+      ? [{ kind: 'requirement' as const, point: requirement.text, quote: result.evidence }]
+      : [];
+  });
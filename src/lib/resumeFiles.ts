@@ -0,0 +1,66 @@
+// The resumes bucket is private: resume_file_url holds the object path, and every view
+// goes through a short-lived signed URL.
+import { supabase } from '@/integrations/supabase/client';
+
+const RESUME_BUCKET = 'resumes';
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+// Same format as userStoragePath in supabase/functions/_shared/resume.ts. The first path
+// segment must be the owner's ID: storage and ingestion_items policies check it, and the
+// ingestion worker refuses anything else.
+export function userStoragePath(userId: string, fileName: string, index?: number): string {
+  const safeName = fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/_+/g, '_');
+  const prefix = index === undefined ? `${Date.now()}` : `${Date.now()}_${index}`;
+  return `${userId}/${prefix}_${safeName}`;
+}
+
+// Accepts a bare path, as stored by the edge functions, or the public or signed object
+// URLs that older rows still hold
+export function resumeStoragePath(fileUrl: string): string {
+  const match = fileUrl.match(new RegExp(`/storage/v1/object/(?:public|sign|authenticated)/${RESUME_BUCKET}/([^?#]+)`));
+  return match ? decodeURIComponent(match[1]) : fileUrl;
+}
+
+export async function createResumeSignedUrl(fileUrl: string, expiresIn = SIGNED_URL_TTL_SECONDS): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .createSignedUrl(resumeStoragePath(fileUrl), expiresIn);
+  if (error || !data) throw error ?? new Error('Could not sign resume URL');
+  return data.signedUrl;
+}
+
+export async function downloadResume(fileUrl: string): Promise<Blob> {
+  const { data, error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .download(resumeStoragePath(fileUrl));
+  if (error || !data) throw error ?? new Error('Could not download resume');
+  return data;
+}
+
+export type ResumeFileKind = 'pdf' | 'docx' | 'image' | 'other';
+
+export function resumeFileKind(fileUrl: string): ResumeFileKind {
+  const extension = resumeStoragePath(fileUrl).toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+  if (extension === 'pdf') return 'pdf';
+  if (extension === 'docx') return 'docx';
+  if (['png', 'jpg', 'jpeg', 'webp'].includes(extension)) return 'image';
+  return 'other';
+}
+
+// Opens the file in a new tab. The tab is opened before signing so popup blockers
+// still see it as a response to the click.
+export async function openResumeFile(fileUrl: string): Promise<void> {
+  const tab = window.open('', '_blank');
+  try {
+    const signedUrl = await createResumeSignedUrl(fileUrl);
+    if (tab) tab.location.href = signedUrl;
+    else window.open(signedUrl, '_blank');
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+// Locating match evidence quotes in resume text, shared by the extracted text, DOCX and PDF views
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The model quotes redacted text, so match on the longest stretch between placeholders
+// and let whitespace and line breaks differ from the document
+export const quotePattern = (quote: string) => {
+  const fragment = quote
+    .split(/\[[A-Z]+\]|\.\.\.|…/)
+    .map((part) => part.trim().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!fragment || fragment.length < 8) return null;
+  return new RegExp(fragment.split(/\s+/).map(escapeRegExp).join('\\s+'), 'giu');
+};
+
+export type Highlight = { start: number; end: number; index: number };
+
+export const findHighlights = (text: string, patterns: (RegExp | null)[]) => {
+  const found: Highlight[] = [];
+  patterns.forEach((pattern, index) => {
+    if (!pattern) return;
+    for (const match of text.matchAll(pattern)) {
+      found.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, index });
+    }
+  });
+  // Overlapping quotes keep the earlier one
+  const sorted = found.sort((a, b) => a.start - b.start || b.end - a.end);
+  return sorted.filter((highlight, i) => i === 0 || highlight.start >= sorted[i - 1].end);
+};
@@ -0,0 +1,23 @@
+// ZIP archives for bulk exports, built with JSZip like the server-side import
+import JSZip from 'jszip';
+
+export interface ZipEntry {
+  name: string;
+  content: string | Uint8Array;
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const zip = new JSZip();
+
+  // Duplicate names would overwrite each other in the archive
+  const used = new Set<string>();
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) candidate = name.replace(/(\.[^./]+)?$/, `_${n}$1`);
+    used.add(candidate);
+    return candidate;
+  };
+
+  for (const entry of entries) zip.file(uniqueName(entry.name), entry.content);
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
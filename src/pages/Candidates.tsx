@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,12 +19,55 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, FileText, Mail, Phone, MapPin, Briefcase, ExternalLink, Trash2, Download, FileSpreadsheet } from 'lucide-react';
+import { useBlindMode } from '@/hooks/useBlindMode';
+import { pseudonymFor } from '@/lib/redaction';
+import { jsonResumeFileName, toJsonResume } from '@/lib/jsonResume';
+import { createZip } from '@/lib/zip';
+import { resumeStoragePath } from '@/lib/resumeFiles';
+import { ArrowLeft, FileText, Mail, Phone, MapPin, Briefcase, ExternalLink, Trash2, Download, FileSpreadsheet, FolderArchive, Tags, History, ClipboardCheck, RefreshCw, Loader2, EyeOff, FileJson } from 'lucide-react';
 import { Tables } from '@/integrations/supabase/types';
 import Footer from '@/components/Footer';
+import { WorkHistoryTimeline } from '@/components/WorkHistoryTimeline';
+import { CoverLetter } from '@/components/CoverLetter';
+import { ResumeVersionUploadButton } from '@/components/ResumeVersionUploadButton';
+import { ResumeVersionsDialog } from '@/components/ResumeVersionsDialog';
+import { ResumeViewerDialog } from '@/components/ResumeViewerDialog';
 import * as XLSX from 'xlsx';
 
-type Profile = Tables<'profiles'>;
+type Profile = Tables<'profiles'> & {
+  candidate_positions: Tables<'candidate_positions'>[];
+  candidate_education: Tables<'candidate_education'>[];
+};
+
+const DEGREE_LEVEL_LABELS: Record<string, string> = {
+  high_school: 'High School',
+  certificate: 'Certificate / Diploma',
+  associate: 'Associate',
+  bachelor: "Bachelor's",
+  master: "Master's",
+  doctorate: 'Doctorate',
+  other: 'Other',
+};
+
+// Profiles store ISO 639-1 codes (see supabase/functions/_shared/language.ts); the browser
+// knows their names
+const LANGUAGE_NAMES = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+const languageLabel = (code: string) => LANGUAGE_NAMES.of(code) ?? code.toUpperCase();
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const BACKFILL_EMBEDDINGS_URL = 'https://olkbhjyfpdvcovtuekzt.supabase.co/functions/v1/backfill-embeddings';
+const SEARCH_CANDIDATES_URL = 'https://olkbhjyfpdvcovtuekzt.supabase.co/functions/v1/search-candidates';
+// Wait for a pause in typing before running a ranked search
+const SEARCH_DEBOUNCE_MS = 500;
 
 export default function Candidates() {
   const navigate = useNavigate();
@@ -32,6 +76,9 @@ export default function Candidates() {
   const [filteredProfiles, setFilteredProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  // Fused keyword and semantic score per profile for the current search term
+  const [searchRanking, setSearchRanking] = useState<Map<string, number> | null>(null);
+  const [rankingSearch, setRankingSearch] = useState(false);
   const [selectedJobTitle, setSelectedJobTitle] = useState<string>('all');
   const [jobTitles, setJobTitles] = useState<string[]>([]);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -46,26 +93,82 @@ export default function Candidates() {
   const [locationFilter, setLocationFilter] = useState<string>('all');
   const [experienceFilter, setExperienceFilter] = useState<string>('all');
   const [locations, setLocations] = useState<string[]>([]);
+  const [degreeLevelFilter, setDegreeLevelFilter] = useState<string>('all');
+  const [fieldOfStudyFilter, setFieldOfStudyFilter] = useState<string>('all');
+  const [fieldsOfStudy, setFieldsOfStudy] = useState<string[]>([]);
+  const [languageFilter, setLanguageFilter] = useState<string>('all');
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [historyProfile, setHistoryProfile] = useState<Profile | null>(null);
+  const [viewingProfileId, setViewingProfileId] = useState<string | null>(null);
+  const [reviewCount, setReviewCount] = useState(0);
+  const [refreshingEmbeddings, setRefreshingEmbeddings] = useState(false);
+  const { blindMode, setBlindMode } = useBlindMode();
+  // Stable so the resume viewer does not reload on every render
+  const closeResumeViewer = useCallback(() => setViewingProfileId(null), []);
   const ITEMS_PER_PAGE = 10;
 
   useEffect(() => {
     fetchProfiles();
   }, []);
 
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < 2) {
+      setSearchRanking(null);
+      setRankingSearch(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setRankingSearch(true);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+        const response = await fetch(SEARCH_CANDIDATES_URL, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ query }),
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Search failed');
+        if (!cancelled) {
+          setSearchRanking(new Map(
+            (result.results as { profileId: string; score: number }[]).map(({ profileId, score }) => [profileId, score])
+          ));
+        }
+      } catch (error) {
+        // The plain text filter still applies without a ranking
+        console.error('Ranked search failed:', error);
+        if (!cancelled) setSearchRanking(null);
+      } finally {
+        if (!cancelled) setRankingSearch(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm]);
+
   useEffect(() => {
     filterProfiles();
-  }, [profiles, searchTerm, selectedJobTitle, locationFilter, experienceFilter]);
+  }, [profiles, searchTerm, searchRanking, selectedJobTitle, locationFilter, experienceFilter, degreeLevelFilter, fieldOfStudyFilter, languageFilter, blindMode]);
 
   useEffect(() => {
     setCurrentPage(1);
     setSelectedCandidates(new Set());
-  }, [searchTerm, selectedJobTitle, locationFilter, experienceFilter]);
+  }, [searchTerm, selectedJobTitle, locationFilter, experienceFilter, degreeLevelFilter, fieldOfStudyFilter, languageFilter]);
 
   const fetchProfiles = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, candidate_positions(*), candidate_education(*)')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -83,6 +186,25 @@ export default function Candidates() {
         new Set(data?.map(p => p.location).filter(Boolean) as string[])
       );
       setLocations(uniqueLocations);
+
+      // Extract unique fields of study for filter
+      const uniqueFields = Array.from(
+        new Set(data?.flatMap(p => p.candidate_education.map(e => e.field_of_study)).filter(Boolean) as string[])
+      ).sort();
+      setFieldsOfStudy(uniqueFields);
+
+      // Extract unique resume languages for filter
+      const uniqueLanguages = Array.from(
+        new Set(data?.map(p => p.resume_language).filter(Boolean) as string[])
+      ).sort();
+      setLanguages(uniqueLanguages);
+
+      // Extractions waiting in the review queue
+      const { count } = await supabase
+        .from('quarantined_candidates')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending');
+      setReviewCount(count || 0);
     } catch (error) {
       toast({
         title: 'Error',
@@ -97,17 +219,23 @@ export default function Candidates() {
   const filterProfiles = () => {
     let filtered = profiles;
 
-    // Filter by search term (searches across multiple fields)
+    // Filter by search term (searches across multiple fields), plus the profiles the
+    // ranked search found in resumes by keyword or meaning. Blind review does not match
+    // identity fields, so a hidden candidate cannot be looked up by name.
     if (searchTerm) {
       const searchLower = searchTerm.toLowerCase();
       filtered = filtered.filter(profile =>
-        profile.full_name?.toLowerCase().includes(searchLower) ||
-        profile.email?.toLowerCase().includes(searchLower) ||
-        profile.phone_number?.toLowerCase().includes(searchLower) ||
+        searchRanking?.has(profile.id) ||
+        (!blindMode && (
+          profile.full_name?.toLowerCase().includes(searchLower) ||
+          profile.email?.toLowerCase().includes(searchLower) ||
+          profile.phone_number?.toLowerCase().includes(searchLower) ||
+          profile.location?.toLowerCase().includes(searchLower)
+        )) ||
         profile.job_title?.toLowerCase().includes(searchLower) ||
-        profile.location?.toLowerCase().includes(searchLower) ||
         profile.sector?.toLowerCase().includes(searchLower) ||
-        profile.skills?.some(skill => skill.toLowerCase().includes(searchLower))
+        profile.skills?.some(skill => skill.toLowerCase().includes(searchLower)) ||
+        profile.candidate_positions.some(position => position.company?.toLowerCase().includes(searchLower))
       );
     }
 
@@ -133,11 +261,36 @@ export default function Candidates() {
       });
     }
 
+    // Filter by degree level (any education record at that level)
+    if (degreeLevelFilter !== 'all') {
+      filtered = filtered.filter(profile =>
+        profile.candidate_education.some(e => e.degree_level === degreeLevelFilter)
+      );
+    }
+
+    // Filter by field of study
+    if (fieldOfStudyFilter !== 'all') {
+      filtered = filtered.filter(profile =>
+        profile.candidate_education.some(e => e.field_of_study === fieldOfStudyFilter)
+      );
+    }
+
+    // Filter by resume language
+    if (languageFilter !== 'all') {
+      filtered = filtered.filter(profile => profile.resume_language === languageFilter);
+    }
+
+    // Best ranked matches first; plain text matches keep their order after them
+    if (searchTerm && searchRanking) {
+      const ranking = searchRanking;
+      filtered = [...filtered].sort((a, b) => (ranking.get(b.id) ?? -1) - (ranking.get(a.id) ?? -1));
+    }
+
     setFilteredProfiles(filtered);
   };
 
-  const handleViewResume = (resumeUrl: string | null) => {
-    if (!resumeUrl) {
+  const handleViewResume = (profile: Profile) => {
+    if (!profile.resume_file_url) {
       toast({
         title: 'No Resume',
         description: 'This candidate does not have a resume file uploaded',
@@ -145,7 +298,7 @@ export default function Candidates() {
       });
       return;
     }
-    window.open(resumeUrl, '_blank');
+    setViewingProfileId(profile.id);
   };
 
   const findDuplicates = () => {
@@ -192,6 +345,52 @@ export default function Candidates() {
     }
   };
 
+  // Re-embeds profiles whose embedding is missing or was built with another model or recipe.
+  // Each call works for a bounded time and returns a cursor to continue from.
+  const refreshEmbeddings = async () => {
+    setRefreshingEmbeddings(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) throw new Error('No active session found');
+
+      let cursor: string | null = null;
+      let embedded = 0;
+      let failed = 0;
+      do {
+        const response = await fetch(BACKFILL_EMBEDDINGS_URL, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ cursor }),
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to refresh embeddings');
+
+        embedded += result.embedded;
+        failed += result.failed;
+        cursor = result.done ? null : result.cursor;
+      } while (cursor);
+
+      toast({
+        title: 'Embeddings Refreshed',
+        description: embedded === 0 && failed === 0
+          ? 'Every candidate is already up to date'
+          : `Re-embedded ${embedded} candidate(s)${failed > 0 ? `, ${failed} failed and will be retried next time` : ''}`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to refresh embeddings',
+        variant: 'destructive',
+      });
+    } finally {
+      setRefreshingEmbeddings(false);
+    }
+  };
+
   const handleDeleteDuplicates = async () => {
     setDeletingDuplicates(true);
     try {
@@ -315,7 +514,7 @@ export default function Candidates() {
       'Sector': profile.sector || '',
       'Skills': profile.skills?.join(', ') || '',
       'Education': profile.education || '',
-      'Resume URL': profile.resume_file_url || '',
+      'Resume File': profile.resume_file_url ? resumeStoragePath(profile.resume_file_url) : '',
     }));
 
     const ws = XLSX.utils.json_to_sheet(excelData);
@@ -337,6 +536,25 @@ export default function Candidates() {
     });
   };
 
+  const exportJsonResume = (profile: Profile) => {
+    const json = JSON.stringify(toJsonResume(profile), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), jsonResumeFileName(profile));
+  };
+
+  // One JSON Resume document per candidate, bundled for partner agencies
+  const exportJsonResumes = async () => {
+    const zip = await createZip(filteredProfiles.map(profile => ({
+      name: jsonResumeFileName(profile),
+      content: JSON.stringify(toJsonResume(profile), null, 2),
+    })));
+    downloadBlob(zip, `candidates_json_resume_${new Date().toISOString().split('T')[0]}.zip`);
+
+    toast({
+      title: 'Export Successful',
+      description: `Exported ${filteredProfiles.length} candidates as JSON Resume`,
+    });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-muted/20 to-primary/5 flex flex-col">
       <div className="container mx-auto px-4 py-8 flex-1">
@@ -353,6 +571,33 @@ export default function Candidates() {
             <h1 className="text-4xl font-bold text-foreground">All Candidates</h1>
           </div>
           <div className="flex flex-wrap gap-2">
+            {reviewCount > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => navigate('/review')}
+                className="gap-2 border-amber-500/60 text-amber-600"
+              >
+                <ClipboardCheck className="h-4 w-4" />
+                Needs Review ({reviewCount})
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => navigate('/skills')}
+              className="gap-2"
+            >
+              <Tags className="h-4 w-4" />
+              Skills Taxonomy
+            </Button>
+            <Button
+              variant="outline"
+              onClick={refreshEmbeddings}
+              disabled={refreshingEmbeddings || profiles.length === 0}
+              className="gap-2"
+            >
+              {refreshingEmbeddings ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              {refreshingEmbeddings ? 'Refreshing...' : 'Refresh Embeddings'}
+            </Button>
             {selectedCandidates.size > 0 && (
               <Button
                 variant="destructive"
@@ -366,7 +611,8 @@ export default function Candidates() {
             <Button
               variant="outline"
               onClick={exportToCSV}
-              disabled={filteredProfiles.length === 0}
+              disabled={filteredProfiles.length === 0 || blindMode}
+              title={blindMode ? 'The export includes identity details; turn off blind review to download it' : undefined}
               className="gap-2"
             >
               <Download className="h-4 w-4" />
@@ -375,12 +621,23 @@ export default function Candidates() {
             <Button
               variant="outline"
               onClick={exportToExcel}
-              disabled={filteredProfiles.length === 0}
+              disabled={filteredProfiles.length === 0 || blindMode}
+              title={blindMode ? 'The export includes identity details; turn off blind review to download it' : undefined}
               className="gap-2"
             >
               <FileSpreadsheet className="h-4 w-4" />
               Export Excel
             </Button>
+            <Button
+              variant="outline"
+              onClick={exportJsonResumes}
+              disabled={filteredProfiles.length === 0 || blindMode}
+              title={blindMode ? 'The export includes identity details; turn off blind review to download it' : undefined}
+              className="gap-2"
+            >
+              <FileJson className="h-4 w-4" />
+              Export JSON Resume
+            </Button>
             <Button
               variant="destructive"
               onClick={findDuplicates}
@@ -401,17 +658,29 @@ export default function Candidates() {
                 <Label htmlFor="search" className="text-sm font-medium mb-2 block">
                   Search Candidates
                 </Label>
-                <Input
-                  id="search"
-                  placeholder="Search by name, email, phone, job title, location, sector, or skills..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full"
-                />
+                <div className="relative">
+                  <Input
+                    id="search"
+                    placeholder='Search by name, email, job title, skills, employer or resume text; use quotes for exact phrases like "SAP S/4HANA"'
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="w-full pr-10"
+                  />
+                  {rankingSearch && (
+                    <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+                  )}
+                </div>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch id="blind-mode" checked={blindMode} onCheckedChange={setBlindMode} />
+                <Label htmlFor="blind-mode" className="text-sm font-medium flex items-center gap-1 cursor-pointer">
+                  <EyeOff className="h-4 w-4" />
+                  Blind Review
+                </Label>
               </div>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div>
                 <Label htmlFor="job-title" className="text-sm font-medium mb-2 block">
                   Job Title
@@ -467,9 +736,66 @@ export default function Candidates() {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div>
+                <Label htmlFor="degree-level" className="text-sm font-medium mb-2 block">
+                  Degree Level
+                </Label>
+                <Select value={degreeLevelFilter} onValueChange={setDegreeLevelFilter}>
+                  <SelectTrigger id="degree-level">
+                    <SelectValue placeholder="All Degree Levels" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Degree Levels</SelectItem>
+                    {Object.entries(DEGREE_LEVEL_LABELS).map(([level, label]) => (
+                      <SelectItem key={level} value={level}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="field-of-study" className="text-sm font-medium mb-2 block">
+                  Field of Study
+                </Label>
+                <Select value={fieldOfStudyFilter} onValueChange={setFieldOfStudyFilter}>
+                  <SelectTrigger id="field-of-study">
+                    <SelectValue placeholder="All Fields" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Fields</SelectItem>
+                    {fieldsOfStudy.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {field}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="language" className="text-sm font-medium mb-2 block">
+                  Resume Language
+                </Label>
+                <Select value={languageFilter} onValueChange={setLanguageFilter}>
+                  <SelectTrigger id="language">
+                    <SelectValue placeholder="All Languages" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Languages</SelectItem>
+                    {languages.map((language) => (
+                      <SelectItem key={language} value={language}>
+                        {languageLabel(language)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
-            {(searchTerm || selectedJobTitle !== 'all' || locationFilter !== 'all' || experienceFilter !== 'all') && (
+            {(searchTerm || selectedJobTitle !== 'all' || locationFilter !== 'all' || experienceFilter !== 'all' || degreeLevelFilter !== 'all' || fieldOfStudyFilter !== 'all' || languageFilter !== 'all') && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -478,6 +804,9 @@ export default function Candidates() {
                   setSelectedJobTitle('all');
                   setLocationFilter('all');
                   setExperienceFilter('all');
+                  setDegreeLevelFilter('all');
+                  setFieldOfStudyFilter('all');
+                  setLanguageFilter('all');
                 }}
                 className="text-sm"
               >
@@ -561,9 +890,30 @@ export default function Candidates() {
                             <FileText className="h-5 w-5 text-primary" />
                           </div>
                           <div className="flex-1">
-                            <h3 className="text-xl font-bold text-foreground">
-                              {profile.full_name || 'Unknown'}
-                            </h3>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <h3 className="text-xl font-bold text-foreground">
+                                {blindMode ? pseudonymFor(profile.id) : profile.full_name || 'Unknown'}
+                              </h3>
+                              {profile.needs_ai_enrichment && (
+                                <span
+                                  className="px-2 py-0.5 bg-amber-500/10 text-amber-600 rounded-full text-xs font-medium"
+                                  title="Saved with rule-based extraction because AI parsing was unavailable"
+                                >
+                                  Needs AI enrichment
+                                </span>
+                              )}
+                              {profile.resume_language && (
+                                <span
+                                  className="px-2 py-0.5 bg-muted text-muted-foreground rounded-full text-xs font-medium"
+                                  title={profile.original_resume_text
+                                    ? 'Extracted fields were translated; the original resume text is kept'
+                                    : undefined}
+                                >
+                                  {languageLabel(profile.resume_language)}
+                                  {profile.original_resume_text && ' · translated'}
+                                </span>
+                              )}
+                            </div>
                             {profile.job_title && (
                               <div className="flex items-center gap-2 mt-1">
                                 <Briefcase className="h-4 w-4 text-muted-foreground" />
@@ -576,19 +926,19 @@ export default function Candidates() {
                     </div>
 
                     <div className="grid md:grid-cols-2 gap-2 text-sm">
-                      {profile.email && (
+                      {!blindMode && profile.email && (
                         <div className="flex items-center gap-2 text-muted-foreground">
                           <Mail className="h-4 w-4" />
                           <span>{profile.email}</span>
                         </div>
                       )}
-                      {profile.phone_number && (
+                      {!blindMode && profile.phone_number && (
                         <div className="flex items-center gap-2 text-muted-foreground">
                           <Phone className="h-4 w-4" />
                           <span>{profile.phone_number}</span>
                         </div>
                       )}
-                      {profile.location && (
+                      {!blindMode && profile.location && (
                         <div className="flex items-center gap-2 text-muted-foreground">
                           <MapPin className="h-4 w-4" />
                           <span>{profile.location}</span>
@@ -600,6 +950,12 @@ export default function Candidates() {
                           <span>{profile.years_of_experience} years experience</span>
                         </div>
                       )}
+                      {profile.source && (
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <FolderArchive className="h-4 w-4" />
+                          <span>From {profile.source}</span>
+                        </div>
+                      )}
                     </div>
 
                     {profile.skills && profile.skills.length > 0 && (
@@ -619,17 +975,40 @@ export default function Candidates() {
                         )}
                       </div>
                     )}
+
+                    <WorkHistoryTimeline positions={profile.candidate_positions} />
+                    <CoverLetter text={profile.cover_letter} redactFor={blindMode ? profile : undefined} />
                   </div>
 
                   <div className="flex md:flex-col gap-2">
                     <Button
-                      onClick={() => handleViewResume(profile.resume_file_url)}
+                      onClick={() => handleViewResume(profile)}
                       className="gap-2 whitespace-nowrap"
-                      disabled={!profile.resume_file_url}
+                      disabled={!profile.resume_file_url || blindMode}
+                      title={blindMode ? 'The original resume shows identity details; turn off blind review to open it' : undefined}
                     >
                       <ExternalLink className="h-4 w-4" />
                       View Resume
                     </Button>
+                    <ResumeVersionUploadButton profileId={profile.id} onUploaded={fetchProfiles} />
+                    <Button
+                      variant="outline"
+                      onClick={() => setHistoryProfile(profile)}
+                      className="gap-2 whitespace-nowrap"
+                    >
+                      <History className="h-4 w-4" />
+                      History
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => exportJsonResume(profile)}
+                      className="gap-2 whitespace-nowrap"
+                      disabled={blindMode}
+                      title={blindMode ? 'The export includes identity details; turn off blind review to download it' : undefined}
+                    >
+                      <FileJson className="h-4 w-4" />
+                      JSON Resume
+                    </Button>
                   </div>
                 </div>
               </div>
@@ -674,6 +1053,18 @@ export default function Candidates() {
         )}
       </div>
 
+      <ResumeViewerDialog profileId={viewingProfileId} onClose={closeResumeViewer} />
+
+      {historyProfile && (
+        <ResumeVersionsDialog
+          open={!!historyProfile}
+          onOpenChange={(open) => !open && setHistoryProfile(null)}
+          profileId={historyProfile.id}
+          candidateName={blindMode ? pseudonymFor(historyProfile.id) : historyProfile.full_name || 'this candidate'}
+          blindMode={blindMode}
+        />
+      )}
+
       {/* Bulk Delete Confirmation Dialog */}
       <AlertDialog open={showBulkDeleteDialog} onOpenChange={setShowBulkDeleteDialog}>
         <AlertDialogContent>
@@ -1,10 +1,10 @@
 import React, { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ResumeUpload } from '@/components/ResumeUpload';
 import { CandidateHunting } from '@/components/CandidateHunting';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { Users, Upload, LogOut, Bookmark, History } from 'lucide-react';
+import { Users, Upload, LogOut, Bookmark, History, Briefcase } from 'lucide-react';
 import adiLinkLogo from '@/assets/adilink-logo.png';
 import { useAuth } from '@/hooks/useAuth';
 import { Loader2 } from 'lucide-react';
@@ -13,6 +13,7 @@ import Footer from '@/components/Footer';
 const Index = () => {
   const { user, loading, signOut } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
   useEffect(() => {
     if (!loading && !user) {
@@ -88,11 +89,21 @@ const Index = () => {
                 <History className="h-4 w-4" />
                 Search History
               </Button>
+              <Button
+                variant="outline"
+                size="default"
+                onClick={() => navigate('/jobs')}
+                className="gap-2 bg-card/60 backdrop-blur-sm hover:bg-accent/10 border-accent/40 hover:border-accent/60 shadow-[var(--shadow-card)] hover:shadow-[var(--shadow-elegant)] transition-all duration-300"
+              >
+                <Briefcase className="h-4 w-4" />
+                Jobs
+              </Button>
             </div>
           </div>
         </header>
 
-        <Tabs defaultValue="upload" className="space-y-10">
+        {/* Links from the jobs page open straight on the search for that job */}
+        <Tabs defaultValue={searchParams.has('job') ? 'hunt' : 'upload'} className="space-y-10">
           <div className="flex flex-col md:flex-row items-center justify-center gap-4 md:gap-6">
             <TabsList className="grid w-full md:w-auto grid-cols-2 h-14 bg-card/60 backdrop-blur-md border border-primary/30 shadow-[var(--shadow-card)] md:min-w-[400px]">
               <TabsTrigger 
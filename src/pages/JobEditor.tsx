@@ -0,0 +1,383 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ArrowLeft, Loader2, Save } from 'lucide-react';
+import Footer from '@/components/Footer';
+import { SkillListInput } from '@/components/SkillListInput';
+import { JOB_STATUS_LABELS, REMOTE_POLICY_LABELS } from '@/lib/jobs';
+
+interface JobForm {
+  title: string;
+  department: string;
+  location: string;
+  remote_policy: string;
+  min_years: string;
+  max_years: string;
+  must_have_skills: string[];
+  nice_to_have_skills: string[];
+  salary_min: string;
+  salary_max: string;
+  salary_currency: string;
+  description: string;
+  status: string;
+}
+
+const EMPTY_FORM: JobForm = {
+  title: '',
+  department: '',
+  location: '',
+  remote_policy: 'onsite',
+  min_years: '',
+  max_years: '',
+  must_have_skills: [],
+  nice_to_have_skills: [],
+  salary_min: '',
+  salary_max: '',
+  salary_currency: '',
+  description: '',
+  status: 'draft',
+};
+
+// Number inputs hand back strings; an empty field is stored as NULL
+const toNumber = (value: string): number | null => {
+  const trimmed = value.trim();
+  return trimmed === '' ? null : Math.round(Number(trimmed));
+};
+
+const fromNumber = (value: number | null): string => (value === null ? '' : String(value));
+
+export default function JobEditor() {
+  const navigate = useNavigate();
+  const { jobId } = useParams<{ jobId: string }>();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [form, setForm] = useState<JobForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(!!jobId);
+  const [saving, setSaving] = useState(false);
+
+  const loadJob = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        toast({
+          title: 'Job Not Found',
+          description: 'This job does not exist or was deleted',
+          variant: 'destructive',
+        });
+        navigate('/jobs');
+        return;
+      }
+
+      setForm({
+        title: data.title,
+        department: data.department ?? '',
+        location: data.location ?? '',
+        remote_policy: data.remote_policy,
+        min_years: fromNumber(data.min_years),
+        max_years: fromNumber(data.max_years),
+        must_have_skills: data.must_have_skills,
+        nice_to_have_skills: data.nice_to_have_skills,
+        salary_min: fromNumber(data.salary_min),
+        salary_max: fromNumber(data.salary_max),
+        salary_currency: data.salary_currency ?? '',
+        description: data.description ?? '',
+        status: data.status,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load job',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, navigate]);
+
+  useEffect(() => {
+    if (user && jobId) {
+      loadJob(jobId);
+    }
+  }, [user, jobId, loadJob]);
+
+  const updateField = <K extends keyof JobForm>(field: K, value: JobForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const validate = (): string | null => {
+    if (!form.title.trim()) return 'Title is required';
+    const minYears = toNumber(form.min_years);
+    const maxYears = toNumber(form.max_years);
+    if ([minYears, maxYears].some(v => v !== null && (Number.isNaN(v) || v < 0))) {
+      return 'Years of experience must be zero or more';
+    }
+    if (minYears !== null && maxYears !== null && minYears > maxYears) {
+      return 'Minimum years cannot exceed maximum years';
+    }
+    const salaryMin = toNumber(form.salary_min);
+    const salaryMax = toNumber(form.salary_max);
+    if ([salaryMin, salaryMax].some(v => v !== null && (Number.isNaN(v) || v < 0))) {
+      return 'Salary must be zero or more';
+    }
+    if (salaryMin !== null && salaryMax !== null && salaryMin > salaryMax) {
+      return 'Minimum salary cannot exceed maximum salary';
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validationError = validate();
+    if (validationError) {
+      toast({
+        title: 'Invalid Job',
+        description: validationError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const job = {
+        title: form.title.trim(),
+        department: form.department.trim() || null,
+        location: form.location.trim() || null,
+        remote_policy: form.remote_policy,
+        min_years: toNumber(form.min_years),
+        max_years: toNumber(form.max_years),
+        must_have_skills: form.must_have_skills,
+        nice_to_have_skills: form.nice_to_have_skills,
+        salary_min: toNumber(form.salary_min),
+        salary_max: toNumber(form.salary_max),
+        salary_currency: form.salary_currency.trim().toUpperCase() || null,
+        description: form.description.trim() || null,
+        status: form.status,
+      };
+
+      const { error } = jobId
+        ? await supabase
+            .from('jobs')
+            .update({ ...job, updated_at: new Date().toISOString() })
+            .eq('id', jobId)
+        : await supabase
+            .from('jobs')
+            .insert({ ...job, user_id: user.id });
+
+      if (error) throw error;
+
+      toast({
+        title: jobId ? 'Job Updated' : 'Job Created',
+        description: `${job.title} was saved`,
+      });
+      navigate('/jobs');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save job',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/20 to-primary/5 flex flex-col">
+      <div className="container mx-auto px-4 py-8 flex-1 max-w-4xl">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/jobs')}
+            className="gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <h1 className="text-4xl font-bold text-foreground">{jobId ? 'Edit Job' : 'New Job'}</h1>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card className="p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="job-title">Title *</Label>
+                <Input
+                  id="job-title"
+                  value={form.title}
+                  onChange={(e) => updateField('title', e.target.value)}
+                  placeholder="e.g. Senior Backend Engineer"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-department">Department</Label>
+                <Input
+                  id="job-department"
+                  value={form.department}
+                  onChange={(e) => updateField('department', e.target.value)}
+                  placeholder="e.g. Engineering"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-status">Status</Label>
+                <Select value={form.status} onValueChange={(value) => updateField('status', value)}>
+                  <SelectTrigger id="job-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(JOB_STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-location">Location</Label>
+                <Input
+                  id="job-location"
+                  value={form.location}
+                  onChange={(e) => updateField('location', e.target.value)}
+                  placeholder="e.g. Berlin, Germany"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-remote-policy">Remote Policy</Label>
+                <Select value={form.remote_policy} onValueChange={(value) => updateField('remote_policy', value)}>
+                  <SelectTrigger id="job-remote-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REMOTE_POLICY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-min-years">Minimum Years of Experience</Label>
+                <Input
+                  id="job-min-years"
+                  type="number"
+                  min={0}
+                  value={form.min_years}
+                  onChange={(e) => updateField('min_years', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-max-years">Maximum Years of Experience</Label>
+                <Input
+                  id="job-max-years"
+                  type="number"
+                  min={0}
+                  value={form.max_years}
+                  onChange={(e) => updateField('max_years', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="job-must-have">Must-have Skills</Label>
+              <SkillListInput
+                id="job-must-have"
+                skills={form.must_have_skills}
+                onChange={(skills) => updateField('must_have_skills', skills)}
+                placeholder="Add a skill and press Enter"
+              />
+              <p className="text-xs text-muted-foreground">
+                Candidates missing any of these are flagged and scored markedly lower.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="job-nice-to-have">Nice-to-have Skills</Label>
+              <SkillListInput
+                id="job-nice-to-have"
+                skills={form.nice_to_have_skills}
+                onChange={(skills) => updateField('nice_to_have_skills', skills)}
+                placeholder="Add a skill and press Enter"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="job-salary-min">Salary Minimum</Label>
+                <Input
+                  id="job-salary-min"
+                  type="number"
+                  min={0}
+                  value={form.salary_min}
+                  onChange={(e) => updateField('salary_min', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-salary-max">Salary Maximum</Label>
+                <Input
+                  id="job-salary-max"
+                  type="number"
+                  min={0}
+                  value={form.salary_max}
+                  onChange={(e) => updateField('salary_max', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="job-salary-currency">Currency</Label>
+                <Input
+                  id="job-salary-currency"
+                  value={form.salary_currency}
+                  onChange={(e) => updateField('salary_currency', e.target.value)}
+                  placeholder="e.g. EUR"
+                  maxLength={3}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="job-description">Description</Label>
+              <Textarea
+                id="job-description"
+                value={form.description}
+                onChange={(e) => updateField('description', e.target.value)}
+                placeholder="Responsibilities, team, and anything else candidates should be judged on..."
+                className="min-h-[200px]"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => navigate('/jobs')} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="gap-2">
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                {jobId ? 'Save Changes' : 'Create Job'}
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ArrowLeft, Loader2, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import Footer from '@/components/Footer';
+import { JOB_STATUS_LABELS, salaryBandLabel, workLocationLabel, yearsRangeLabel, type Job } from '@/lib/jobs';
+
+const STATUS_BADGE_VARIANTS: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  open: 'default',
+  draft: 'secondary',
+  on_hold: 'outline',
+  closed: 'outline',
+};
+
+// Skills shown in the table before the rest are summarized
+const VISIBLE_SKILLS = 4;
+
+export default function Jobs() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [pendingDelete, setPendingDelete] = useState<Job | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch jobs',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchJobs();
+    }
+  }, [user, fetchJobs]);
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const job = pendingDelete;
+    setPendingDelete(null);
+    try {
+      const { error } = await supabase.from('jobs').delete().eq('id', job.id);
+      if (error) throw error;
+      setJobs(prev => prev.filter(j => j.id !== job.id));
+      toast({ title: 'Job Deleted', description: `${job.title} was deleted` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete job',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const searchLower = searchTerm.toLowerCase();
+  const filteredJobs = jobs.filter(job =>
+    (statusFilter === 'all' || job.status === statusFilter) &&
+    (!searchTerm ||
+      job.title.toLowerCase().includes(searchLower) ||
+      job.department?.toLowerCase().includes(searchLower) ||
+      job.location?.toLowerCase().includes(searchLower) ||
+      [...job.must_have_skills, ...job.nice_to_have_skills].some(skill => skill.toLowerCase().includes(searchLower)))
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/20 to-primary/5 flex flex-col">
+      <div className="container mx-auto px-4 py-8 flex-1">
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/')}
+              className="gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <h1 className="text-4xl font-bold text-foreground">Job Requisitions</h1>
+          </div>
+          <Button onClick={() => navigate('/jobs/new')} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Job
+          </Button>
+        </div>
+
+        <Card className="p-6 mb-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <Input
+              placeholder="Search by title, department, location or skill..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="flex-1"
+            />
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {Object.entries(JOB_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="mt-3 text-sm text-muted-foreground">
+            Candidate searches run for a job score candidates against its must-have and nice-to-have skills and
+            required experience, not just the description text.
+          </p>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredJobs.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">
+            {jobs.length === 0 ? 'No jobs yet. Create one to search candidates against its requirements.' : 'No jobs match your filters.'}
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Experience</TableHead>
+                  <TableHead>Must-have Skills</TableHead>
+                  <TableHead>Salary</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredJobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-medium">
+                      {job.title}
+                      {job.department && (
+                        <div className="text-xs text-muted-foreground">{job.department}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{workLocationLabel(job)}</TableCell>
+                    <TableCell>{yearsRangeLabel(job) ?? '—'}</TableCell>
+                    <TableCell className="max-w-[280px]">
+                      <div className="flex flex-wrap gap-1">
+                        {job.must_have_skills.slice(0, VISIBLE_SKILLS).map((skill) => (
+                          <Badge key={skill} variant="secondary">{skill}</Badge>
+                        ))}
+                        {job.must_have_skills.length > VISIBLE_SKILLS && (
+                          <Badge variant="outline">+{job.must_have_skills.length - VISIBLE_SKILLS}</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{salaryBandLabel(job) ?? '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE_VARIANTS[job.status] ?? 'outline'}>
+                        {JOB_STATUS_LABELS[job.status] ?? job.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`/?job=${job.id}`)}
+                          className="gap-1"
+                        >
+                          <Search className="h-4 w-4" />
+                          Find Candidates
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`/jobs/${job.id}`)}
+                          aria-label={`Edit ${job.title}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPendingDelete(job)}
+                          className="hover:text-destructive"
+                          aria-label={`Delete ${job.title}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Job?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.title} will be deleted. Searches already run for it stay in your search history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Footer />
+    </div>
+  );
+}
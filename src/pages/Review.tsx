@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ArrowLeft, ClipboardCheck, ExternalLink, FileText, Loader2, Trash2 } from 'lucide-react';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { QuarantineReviewForm, ReviewFormInput, ReviewFormValues } from '@/components/QuarantineReviewForm';
+import Footer from '@/components/Footer';
+import { openResumeFile } from '@/lib/resumeFiles';
+
+type QuarantinedCandidate = Tables<'quarantined_candidates'>;
+
+// Promotion runs the import save path on the server: history, embedding and search chunks
+const PROMOTE_CANDIDATE_URL = 'https://olkbhjyfpdvcovtuekzt.supabase.co/functions/v1/promote-candidate';
+
+const FIELD_LABELS: Record<string, string> = {
+  full_name: 'Name',
+  email: 'Email',
+  job_title: 'Job Title',
+  sector: 'Sector',
+  skills: 'Skills',
+};
+
+const extractedFields = (candidate: QuarantinedCandidate): Record<string, Json | undefined> =>
+  candidate.extracted && typeof candidate.extracted === 'object' && !Array.isArray(candidate.extracted)
+    ? candidate.extracted
+    : {};
+
+const asText = (value: Json | undefined) => (typeof value === 'string' ? value : '');
+
+const toFormDefaults = (candidate: QuarantinedCandidate): ReviewFormInput => {
+  const extracted = extractedFields(candidate);
+  return {
+    full_name: asText(extracted.full_name),
+    email: asText(extracted.email),
+    phone_number: asText(extracted.phone_number),
+    location: asText(extracted.location),
+    job_title: asText(extracted.job_title),
+    years_of_experience: typeof extracted.years_of_experience === 'number' ? extracted.years_of_experience : 0,
+    sector: asText(extracted.sector),
+    skills: Array.isArray(extracted.skills) ? extracted.skills.join(', ') : '',
+    experience: asText(extracted.experience),
+    education: asText(extracted.education),
+  };
+};
+
+export default function Review() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [candidates, setCandidates] = useState<QuarantinedCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<QuarantinedCandidate | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [discardingId, setDiscardingId] = useState<string | null>(null);
+
+  const fetchCandidates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quarantined_candidates')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setCandidates(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch the review queue',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchCandidates();
+    }
+  }, [user, fetchCandidates]);
+
+  const openFile = async (fileUrl: string) => {
+    try {
+      await openResumeFile(fileUrl);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to open the resume file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePromote = async (values: ReviewFormValues) => {
+    if (!reviewing || !user) return;
+    setSubmitting(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) throw new Error('No active session found');
+
+      const response = await fetch(PROMOTE_CANDIDATE_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ reviewId: reviewing.id, profile: values }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save candidate');
+
+      toast({
+        title: 'Candidate Saved',
+        description: `${values.full_name} was added to your candidates`,
+      });
+      setCandidates(prev => prev.filter(c => c.id !== reviewing.id));
+      setReviewing(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save candidate',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDiscard = async (candidate: QuarantinedCandidate) => {
+    setDiscardingId(candidate.id);
+    try {
+      const { error } = await supabase
+        .from('quarantined_candidates')
+        .update({ status: 'discarded', reviewed_at: new Date().toISOString() })
+        .eq('id', candidate.id);
+
+      if (error) throw error;
+
+      setCandidates(prev => prev.filter(c => c.id !== candidate.id));
+      toast({
+        title: 'Discarded',
+        description: `${candidate.file_name} was removed from the review queue`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to discard candidate',
+        variant: 'destructive',
+      });
+    } finally {
+      setDiscardingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/20 to-primary/5 flex flex-col">
+      <div className="container mx-auto px-4 py-8 flex-1">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/candidates')}
+            className="gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <h1 className="text-4xl font-bold text-foreground">Needs Review</h1>
+        </div>
+
+        <p className="text-muted-foreground mb-6">
+          Resumes whose extraction was missing required fields. Fill in the gaps to save them as candidates, or discard them.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : candidates.length === 0 ? (
+          <Card className="p-12 text-center">
+            <ClipboardCheck className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Nothing to review. Every extracted resume was complete.</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {candidates.map((candidate) => {
+              const extracted = extractedFields(candidate);
+              return (
+                <Card key={candidate.id} className="p-6">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 bg-primary/10 rounded-lg">
+                        <FileText className="h-5 w-5 text-primary" />
+                      </div>
+                      <div>
+                        <h3 className="text-lg font-semibold text-foreground">
+                          {asText(extracted.full_name) || candidate.file_name}
+                        </h3>
+                        <p className="text-sm text-muted-foreground">
+                          {candidate.file_name}
+                          {candidate.source && ` · from ${candidate.source}`}
+                          {' · '}
+                          {new Date(candidate.created_at).toLocaleDateString()}
+                        </p>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {candidate.missing_fields.map((field) => (
+                            <span
+                              key={field}
+                              className="px-2 py-0.5 bg-amber-500/10 text-amber-600 rounded-full text-xs font-medium"
+                            >
+                              Missing {FIELD_LABELS[field] ?? field}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => candidate.resume_file_url && openFile(candidate.resume_file_url)}
+                        disabled={!candidate.resume_file_url}
+                        className="gap-2"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                        View Resume
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => handleDiscard(candidate)}
+                        disabled={discardingId === candidate.id}
+                        className="gap-2"
+                      >
+                        {discardingId === candidate.id
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Trash2 className="h-4 w-4" />}
+                        Discard
+                      </Button>
+                      <Button onClick={() => setReviewing(candidate)} className="gap-2">
+                        <ClipboardCheck className="h-4 w-4" />
+                        Review
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && !submitting && setReviewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Complete Candidate</DialogTitle>
+            <DialogDescription>
+              {reviewing?.file_name} - fields the extraction missed are highlighted.
+            </DialogDescription>
+          </DialogHeader>
+          {reviewing && (
+            <QuarantineReviewForm
+              key={reviewing.id}
+              defaultValues={toFormDefaults(reviewing)}
+              missingFields={reviewing.missing_fields}
+              submitting={submitting}
+              onSubmit={handlePromote}
+              onCancel={() => setReviewing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+      <Footer />
+    </div>
+  );
+}
@@ -5,9 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Search, Calendar, Users, Trash2, Eye, Loader2 } from "lucide-react";
+import { ArrowLeft, Search, Calendar, Users, Trash2, Eye, Loader2, Filter } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import Footer from "@/components/Footer";
+import { Json } from "@/integrations/supabase/types";
+import { candidateFilterLabels, toCandidateFilters } from "@/lib/filters";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,6 +26,7 @@ interface JobSearch {
   id: string;
   job_description: string;
   total_candidates: number;
+  filters: Json;
   created_at: string;
 }
 
@@ -191,6 +194,12 @@ export default function SearchHistory() {
                       <Calendar className="h-3 w-3" />
                       {new Date(search.created_at).toLocaleDateString()} at {new Date(search.created_at).toLocaleTimeString()}
                     </Badge>
+                    {candidateFilterLabels(toCandidateFilters(search.filters)).map((label) => (
+                      <Badge key={label} variant="outline" className="flex items-center gap-1 border-primary/40">
+                        <Filter className="h-3 w-3" />
+                        {label}
+                      </Badge>
+                    ))}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ArrowLeft, Loader2, Plus, RefreshCw, X } from 'lucide-react';
+import { Tables } from '@/integrations/supabase/types';
+import Footer from '@/components/Footer';
+
+type Skill = Tables<'skills'> & { skill_aliases: Tables<'skill_aliases'>[] };
+
+const NO_PARENT = 'none';
+
+export default function Skills() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [profileCounts, setProfileCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [busySkillId, setBusySkillId] = useState<string | null>(null);
+  const [renormalizing, setRenormalizing] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<{ source: Skill; target: Skill } | null>(null);
+
+  const fetchSkills = useCallback(async () => {
+    try {
+      const [{ data: skillData, error: skillError }, { data: profileData, error: profileError }] = await Promise.all([
+        supabase.from('skills').select('*, skill_aliases!skill_aliases_skill_id_fkey(*)').order('name'),
+        supabase.from('profiles').select('skill_ids'),
+      ]);
+
+      if (skillError) throw skillError;
+      if (profileError) throw profileError;
+
+      const counts = new Map<string, number>();
+      profileData?.forEach(p => p.skill_ids.forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+
+      setSkills(skillData || []);
+      setProfileCounts(counts);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch skills',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchSkills();
+    }
+  }, [user, fetchSkills]);
+
+  const runSkillChange = async (skillId: string, change: () => Promise<string>) => {
+    setBusySkillId(skillId);
+    try {
+      const message = await change();
+      toast({ title: 'Skills Updated', description: message });
+      await fetchSkills();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update skill',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusySkillId(null);
+    }
+  };
+
+  const handleAddAlias = (skill: Skill) => {
+    const alias = aliasDrafts[skill.id]?.trim();
+    if (!alias) return;
+
+    runSkillChange(skill.id, async () => {
+      const { data, error } = await supabase.rpc('add_skill_alias', { p_skill_id: skill.id, p_alias: alias });
+      if (error) throw error;
+      setAliasDrafts(prev => ({ ...prev, [skill.id]: '' }));
+      return `"${alias}" now maps to ${skill.name} (${data} profile(s) updated)`;
+    });
+  };
+
+  const handleRemoveAlias = (skill: Skill, alias: Tables<'skill_aliases'>) => {
+    runSkillChange(skill.id, async () => {
+      const { error } = await supabase.from('skill_aliases').delete().eq('id', alias.id);
+      if (error) throw error;
+      return `"${alias.alias}" is no longer an alias of ${skill.name}`;
+    });
+  };
+
+  const handleMerge = () => {
+    if (!pendingMerge) return;
+    const { source, target } = pendingMerge;
+    setPendingMerge(null);
+
+    runSkillChange(source.id, async () => {
+      const { data, error } = await supabase.rpc('merge_skills', { p_source_id: source.id, p_target_id: target.id });
+      if (error) throw error;
+      return `Merged ${source.name} into ${target.name} (${data} profile(s) updated)`;
+    });
+  };
+
+  const handleParentChange = (skill: Skill, parentId: string) => {
+    runSkillChange(skill.id, async () => {
+      const { error } = await supabase
+        .from('skills')
+        .update({ parent_id: parentId === NO_PARENT ? null : parentId })
+        .eq('id', skill.id);
+      if (error) throw error;
+      const parent = skills.find(s => s.id === parentId);
+      return parent ? `${skill.name} is now under ${parent.name}` : `${skill.name} has no category`;
+    });
+  };
+
+  const handleRenormalize = async () => {
+    setRenormalizing(true);
+    try {
+      const { data, error } = await supabase.rpc('renormalize_profile_skills');
+      if (error) throw error;
+      toast({
+        title: 'Profiles Re-normalized',
+        description: `Re-resolved skills on ${data} profile(s)`,
+      });
+      await fetchSkills();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to re-normalize profiles',
+        variant: 'destructive',
+      });
+    } finally {
+      setRenormalizing(false);
+    }
+  };
+
+  const skillNames = new Map(skills.map(s => [s.id, s.name]));
+  const searchLower = searchTerm.toLowerCase();
+  const filteredSkills = skills.filter(skill =>
+    !searchTerm ||
+    skill.name.toLowerCase().includes(searchLower) ||
+    skill.skill_aliases.some(a => a.alias.toLowerCase().includes(searchLower))
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/20 to-primary/5 flex flex-col">
+      <div className="container mx-auto px-4 py-8 flex-1">
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/candidates')}
+              className="gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <h1 className="text-4xl font-bold text-foreground">Skills Taxonomy</h1>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleRenormalize}
+            disabled={renormalizing}
+            className="gap-2"
+          >
+            {renormalizing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Re-normalize Profiles
+          </Button>
+        </div>
+
+        <Card className="p-6 mb-6">
+          <Input
+            placeholder="Search skills or aliases..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+          <p className="mt-3 text-sm text-muted-foreground">
+            Skills extracted from resumes are matched against these names and aliases, ignoring case, spaces and
+            punctuation. Merging a skill turns its name into an alias of the target and updates every profile that had it.
+          </p>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredSkills.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">
+            {skills.length === 0 ? 'No skills yet. Upload resumes to build the catalog.' : 'No skills match your search.'}
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Skill</TableHead>
+                  <TableHead className="text-right">Profiles</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>Merge Into</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredSkills.map((skill) => {
+                  const busy = busySkillId === skill.id;
+                  const others = skills.filter(s => s.id !== skill.id);
+                  return (
+                    <TableRow key={skill.id}>
+                      <TableCell className="font-medium">
+                        {skill.name}
+                        {skill.parent_id && (
+                          <div className="text-xs text-muted-foreground">{skillNames.get(skill.parent_id)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{profileCounts.get(skill.id) || 0}</TableCell>
+                      <TableCell className="min-w-[180px]">
+                        <Select
+                          value={skill.parent_id ?? NO_PARENT}
+                          onValueChange={(value) => handleParentChange(skill, value)}
+                          disabled={busy}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_PARENT}>No category</SelectItem>
+                            {others.map((s) => (
+                              <SelectItem key={s.id} value={s.id}>
+                                {s.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="min-w-[260px]">
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {skill.skill_aliases.map((alias) => (
+                            <span
+                              key={alias.id}
+                              className="inline-flex items-center gap-1 px-2 py-0.5 bg-primary/10 text-primary rounded-full text-xs font-medium"
+                            >
+                              {alias.alias}
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveAlias(skill, alias)}
+                                disabled={busy}
+                                className="hover:text-destructive"
+                                aria-label={`Remove alias ${alias.alias}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                        <div className="flex gap-2">
+                          <Input
+                            value={aliasDrafts[skill.id] || ''}
+                            onChange={(e) => setAliasDrafts(prev => ({ ...prev, [skill.id]: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddAlias(skill)}
+                            placeholder="Add alias"
+                            className="h-8"
+                            disabled={busy}
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleAddAlias(skill)}
+                            disabled={busy || !aliasDrafts[skill.id]?.trim()}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell className="min-w-[180px]">
+                        <Select value="" onValueChange={(value) => {
+                            const target = skills.find(s => s.id === value);
+                            if (target) setPendingMerge({ source: skill, target });
+                          }} disabled={busy}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select target..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {others.map((s) => (
+                              <SelectItem key={s.id} value={s.id}>
+                                {s.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+
+      {/* Merge Confirmation Dialog */}
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Skills?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && (
+                <>
+                  {pendingMerge.source.name} will be removed and become an alias of {pendingMerge.target.name}.
+                  Its aliases and sub-skills move to {pendingMerge.target.name}, and the{' '}
+                  {profileCounts.get(pendingMerge.source.id) || 0} profile(s) that list it will be updated.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge}>Merge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Footer />
+    </div>
+  );
+}
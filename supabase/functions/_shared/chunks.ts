@@ -0,0 +1,158 @@
+// Section-level embeddings: a profile is split into a summary, one chunk per position,
+// its skills and its education, each embedded into profile_chunks. Semantic search
+// matches against the chunks so it can point at the passage that matched instead of
+// one vector that blurs a long resume.
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { type LlmProvider } from "./llm.ts";
+import { embeddingModelId } from "./embedding.ts";
+
+export type ChunkSection = 'summary' | 'position' | 'skills' | 'education' | 'resume';
+
+export interface ProfileChunk {
+  section: ChunkSection;
+  content: string;
+}
+
+// Stored rows as read back from the database; dates are full ISO dates there
+export interface ChunkSourceProfile {
+  full_name: string | null;
+  job_title: string | null;
+  sector: string | null;
+  location: string | null;
+  years_of_experience: number | null;
+  skills: string[] | null;
+  experience: string | null;
+  education: string | null;
+  resume_text: string | null;
+  candidate_positions: {
+    company: string | null;
+    title: string | null;
+    start_date: string | null;
+    end_date: string | null;
+    is_current: boolean;
+    location: string | null;
+    description: string | null;
+    position_index: number;
+  }[];
+  candidate_education: {
+    institution: string | null;
+    degree: string | null;
+    field_of_study: string | null;
+    start_year: number | null;
+    end_year: number | null;
+    grade: string | null;
+    education_index: number;
+  }[];
+}
+
+export const CHUNK_SOURCE_COLUMNS = 'full_name, job_title, sector, location, years_of_experience, skills, experience, education, resume_text, candidate_positions(*), candidate_education(*)';
+
+const MAX_CHUNKS = 24;
+const MAX_CHUNK_CHARS = 2000;
+// Profiles without structured work history fall back to windows over the resume text
+const RESUME_WINDOWS = 4;
+const PARALLEL_EMBEDS = 4;
+
+const monthOf = (date: string | null) => date?.slice(0, 7) ?? null;
+
+export function buildProfileChunks(profile: ChunkSourceProfile): ProfileChunk[] {
+  const chunks: ProfileChunk[] = [];
+
+  const summary = [
+    profile.full_name,
+    [profile.job_title, profile.sector].filter(Boolean).join(', '),
+    profile.location,
+    profile.years_of_experience ? `${profile.years_of_experience} years of experience` : null,
+    profile.experience,
+  ].filter(Boolean).join('\n');
+  if (summary) chunks.push({ section: 'summary', content: summary });
+
+  const positions = [...profile.candidate_positions].sort((a, b) => a.position_index - b.position_index);
+  for (const position of positions) {
+    const role = [position.title, position.company].filter(Boolean).join(' at ');
+    const start = monthOf(position.start_date);
+    const end = position.is_current ? 'Present' : monthOf(position.end_date);
+    const period = start || end ? ` (${start ?? '?'} - ${end ?? '?'})` : '';
+    const heading = `${role}${period}${position.location ? `, ${position.location}` : ''}`;
+    chunks.push({ section: 'position', content: [heading, position.description].filter(Boolean).join('\n') });
+  }
+
+  if (profile.skills?.length) {
+    chunks.push({ section: 'skills', content: `Skills: ${profile.skills.join(', ')}` });
+  }
+
+  const education = [...profile.candidate_education]
+    .sort((a, b) => a.education_index - b.education_index)
+    .map((record) => {
+      const degree = [record.degree, record.field_of_study].filter(Boolean).join(' in ');
+      const years = record.start_year || record.end_year ? ` (${record.start_year ?? '?'} - ${record.end_year ?? '?'})` : '';
+      return [degree, record.institution].filter(Boolean).join(', ') + years + (record.grade ? `, ${record.grade}` : '');
+    });
+  const educationText = education.length > 0 ? education.join('\n') : profile.education;
+  if (educationText) chunks.push({ section: 'education', content: `Education:\n${educationText}` });
+
+  if (positions.length === 0 && profile.resume_text) {
+    for (let i = 0; i < RESUME_WINDOWS; i++) {
+      const window = profile.resume_text.slice(i * MAX_CHUNK_CHARS, (i + 1) * MAX_CHUNK_CHARS).trim();
+      if (!window) break;
+      chunks.push({ section: 'resume', content: window });
+    }
+  }
+
+  return chunks
+    .slice(0, MAX_CHUNKS)
+    .map((chunk) => ({ ...chunk, content: chunk.content.substring(0, MAX_CHUNK_CHARS) }));
+}
+
+// Rebuilds every chunk of a profile from what is stored for it, so it can run after any
+// save path. Chunks are secondary data: a failure is logged and never fails the profile.
+export async function saveProfileChunks(
+  supabaseClient: SupabaseClient,
+  llm: LlmProvider,
+  profileId: string
+): Promise<number> {
+  const { data: profile, error: loadError } = await supabaseClient
+    .from('profiles')
+    .select(`user_id, ${CHUNK_SOURCE_COLUMNS}`)
+    .eq('id', profileId)
+    .single();
+
+  if (loadError || !profile) {
+    console.error(`[CHUNKS] Failed to load profile ${profileId}:`, loadError);
+    return 0;
+  }
+
+  try {
+    const chunks = buildProfileChunks(profile as ChunkSourceProfile);
+    const embeddings: string[] = [];
+    for (let i = 0; i < chunks.length; i += PARALLEL_EMBEDS) {
+      const batch = await Promise.all(chunks.slice(i, i + PARALLEL_EMBEDS).map((chunk) => llm.embed(chunk.content)));
+      embeddings.push(...batch.map((embedding) => `[${embedding.join(',')}]`));
+    }
+
+    await supabaseClient.from('profile_chunks').delete().eq('profile_id', profileId);
+    if (chunks.length > 0) {
+      const { error: insertError } = await supabaseClient.from('profile_chunks').insert(
+        chunks.map((chunk, index) => ({
+          ...chunk,
+          profile_id: profileId,
+          user_id: profile.user_id,
+          chunk_index: index,
+          embedding: embeddings[index],
+          embedding_model: embeddingModelId(llm),
+        }))
+      );
+      if (insertError) throw insertError;
+    }
+
+    const { error: markError } = await supabaseClient
+      .from('profiles')
+      .update({ chunks_model: embeddingModelId(llm) })
+      .eq('id', profileId);
+    if (markError) throw markError;
+    return chunks.length;
+  } catch (error) {
+    console.error(`[CHUNKS] Failed to embed chunks for profile ${profileId}:`, error);
+    return 0;
+  }
+}
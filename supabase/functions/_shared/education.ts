@@ -0,0 +1,95 @@
+// Structured education: normalizes the "education_history" array from the extraction
+// prompt and stores it in candidate_education, one row per qualification.
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { sanitizeString } from "./resume.ts";
+
+export const DEGREE_LEVELS = ['high_school', 'certificate', 'associate', 'bachelor', 'master', 'doctorate', 'other'] as const;
+export type DegreeLevel = typeof DEGREE_LEVELS[number];
+
+export interface NormalizedEducation {
+  institution: string | null;
+  degree: string | null;
+  degree_level: DegreeLevel;
+  field_of_study: string | null;
+  start_year: number | null;
+  end_year: number | null;
+  grade: string | null;
+}
+
+// Added to every extraction prompt so the model returns education in the same shape
+export const EDUCATION_PROMPT_FIELD = `- education_history (array of every degree, diploma or certificate, most recent first: {"institution", "degree", "degree_level" (one of: ${DEGREE_LEVELS.join(', ')}), "field_of_study", "start_year" (integer), "end_year" (integer), "grade"})`;
+
+const MAX_EDUCATION = 15;
+
+// Checked in order, so "Master of Business Administration" is not caught by a looser rule
+const DEGREE_LEVEL_PATTERNS: [DegreeLevel, RegExp][] = [
+  ['doctorate', /\b(ph\.?\s?d|d\.?phil|doctor(ate)?|ed\.?d)\b/i],
+  ['master', /\b(master'?s?|m\.?sc|m\.?s|m\.?a|mba|m\.?eng|m\.?phil|llm|mres)\b/i],
+  ['bachelor', /\b(bachelor'?s?|b\.?sc|b\.?s|b\.?a|b\.?eng|b\.?tech|bba|llb|licen[cs]e|undergraduate)\b/i],
+  ['associate', /\b(associate'?s?|a\.?a\.?s|hnd)\b/i],
+  ['high_school', /\b(high\s+school|secondary|baccalaur[eé]at|a-levels?|ged|gcse)\b/i],
+  ['certificate', /\b(certificat(e|ion)|diploma|bootcamp|course)\b/i],
+];
+
+export function inferDegreeLevel(degree: string | null): DegreeLevel {
+  if (!degree) return 'other';
+  return DEGREE_LEVEL_PATTERNS.find(([, pattern]) => pattern.test(degree))?.[0] ?? 'other';
+}
+
+function parseYear(value: unknown): number | null {
+  const match = sanitizeString(value, 40)?.match(/\b(19|20)\d{2}\b/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+export function normalizeEducation(value: unknown): NormalizedEducation[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .slice(0, MAX_EDUCATION)
+    .map((raw: Record<string, unknown> | null): NormalizedEducation | null => {
+      if (!raw || typeof raw !== 'object') return null;
+      const institution = sanitizeString(raw.institution ?? raw.school, 200);
+      const degree = sanitizeString(raw.degree, 200);
+      if (!institution && !degree) return null;
+
+      // Trust the model's level when it is one we know, otherwise read it from the degree
+      const level = sanitizeString(raw.degree_level, 40)?.toLowerCase() as DegreeLevel | undefined;
+      const startYear = parseYear(raw.start_year);
+      let endYear = parseYear(raw.end_year);
+      if (startYear && endYear && endYear < startYear) endYear = null;
+
+      return {
+        institution,
+        degree,
+        degree_level: level && DEGREE_LEVELS.includes(level) ? level : inferDegreeLevel(degree),
+        field_of_study: sanitizeString(raw.field_of_study, 200),
+        start_year: startYear,
+        end_year: endYear,
+        grade: sanitizeString(raw.grade, 100),
+      };
+    })
+    .filter((e): e is NormalizedEducation => e !== null);
+}
+
+// Education is secondary data: a failure is logged and never fails the profile itself
+export async function saveEducation(
+  supabaseClient: SupabaseClient,
+  profileId: string,
+  userId: string,
+  education: NormalizedEducation[]
+): Promise<void> {
+  if (education.length === 0) return;
+
+  const { error } = await supabaseClient.from('candidate_education').insert(
+    education.map((record, index) => ({
+      ...record,
+      profile_id: profileId,
+      user_id: userId,
+      education_index: index,
+    }))
+  );
+
+  if (error) {
+    console.error(`[EDUCATION] Failed to save ${education.length} record(s) for profile ${profileId}:`, error);
+  }
+}
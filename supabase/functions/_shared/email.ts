@@ -0,0 +1,231 @@
+// Minimal MIME reader for resumes that arrive by email: .eml files hold one message,
+// .mbox files many. Each message yields its sender, its body text (kept as the
+// candidate's cover letter) and its attachments.
+import { extractTextFromHtml } from "./text-extraction.ts";
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface EmailMessage {
+  fromName: string | null;
+  fromEmail: string | null;
+  subject: string | null;
+  body: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  // Raw body as a binary string, one char per byte
+  body: string;
+}
+
+const MAX_MULTIPART_DEPTH = 10;
+
+// One char per byte so base64 and 8bit bodies survive until the charset is known
+function bytesToBinary(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, Math.min(i + chunkSize, bytes.length)));
+  }
+  return binary;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch (_error) {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeBase64(value: string): string {
+  try {
+    return atob(value.replace(/[^A-Za-z0-9+/]/g, ''));
+  } catch (_error) {
+    return '';
+  }
+}
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/=\r?\n/g, '') // Soft line breaks
+    .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?= in subjects, names and file names
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_m, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(binaryToBytes(binary), charset.split('*')[0]);
+    });
+}
+
+function parseEntity(raw: string): MimeEntity {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerEnd = separator?.index ?? raw.length;
+  // Headers should be ASCII, but 8-bit UTF-8 names and subjects are common
+  const headerText = decodeCharset(binaryToBytes(raw.slice(0, headerEnd)), 'utf-8');
+  const body = separator ? raw.slice(headerEnd + separator[0].length) : '';
+
+  const headers = new Map<string, string>();
+  // Folded header lines continue with whitespace
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+// Splits `type/subtype; key=value; ...` into the value and its parameters,
+// including RFC 2231 continuations such as filename*=UTF-8''...
+function parseHeaderValue(value: string | undefined): { value: string; params: Record<string, string> } {
+  const [main, ...rest] = (value ?? '').split(';');
+  const params: Record<string, string> = {};
+  const extended: Record<string, string[]> = {};
+
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    const raw = part.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+    const continuation = key.match(/^([^*]+)\*(\d+)?\*?$/);
+    if (continuation) {
+      const name = continuation[1];
+      (extended[name] ??= [])[Number(continuation[2] ?? 0)] = raw;
+    } else {
+      params[key] = raw;
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(extended)) {
+    const joined = pieces.join('');
+    const encoded = joined.match(/^([^']*)'[^']*'(.*)$/);
+    if (!encoded) {
+      params[name] = joined;
+      continue;
+    }
+    const binary = encoded[2].replace(/%([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16)));
+    params[name] = decodeCharset(binaryToBytes(binary), encoded[1] || 'utf-8');
+  }
+
+  return { value: main.trim().toLowerCase(), params };
+}
+
+function decodeBody(entity: MimeEntity): Uint8Array {
+  const encoding = (entity.headers.get('content-transfer-encoding') ?? '').toLowerCase();
+  if (encoding === 'base64') return binaryToBytes(decodeBase64(entity.body));
+  if (encoding === 'quoted-printable') return binaryToBytes(decodeQuotedPrintable(entity.body));
+  return binaryToBytes(entity.body);
+}
+
+// "Jane Doe" <jane@example.com>, jane@example.com (Jane Doe) or a bare address
+function parseAddress(value: string | undefined): { name: string | null; email: string | null } {
+  const decoded = decodeEncodedWords(value ?? '').trim();
+  const email = decoded.match(/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/)?.[0].toLowerCase() ?? null;
+  const name = decoded
+    .replace(/<[^>]*>/, '')
+    .replace(/\(([^)]*)\)/, '$1')
+    .replace(email ?? '', '')
+    .replace(/^["'\s]+|["'\s]+$/g, '')
+    .trim();
+  return { name: name || null, email };
+}
+
+// Walks the MIME tree collecting the first readable body and every attached file
+function collectParts(
+  entity: MimeEntity,
+  message: { plain: string | null; html: string | null; attachments: EmailAttachment[] },
+  depth: number
+) {
+  const contentType = parseHeaderValue(entity.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(entity.headers.get('content-disposition'));
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < MAX_MULTIPART_DEPTH) {
+    const boundary = `--${contentType.params.boundary}`;
+    const sections = entity.body.split(boundary).slice(1);
+    for (const section of sections) {
+      // The closing delimiter is followed by --
+      if (section.startsWith('--')) break;
+      collectParts(parseEntity(section.replace(/^[ \t]*\r?\n/, '')), message, depth + 1);
+    }
+    return;
+  }
+
+  // Forwarded emails carry the original message, and its attachments, as a part
+  if (contentType.value === 'message/rfc822' && depth < MAX_MULTIPART_DEPTH) {
+    collectParts(parseEntity(entity.body), message, depth + 1);
+    return;
+  }
+
+  const fileName = decodeEncodedWords(disposition.params.filename ?? contentType.params.name ?? '').trim();
+  if (disposition.value === 'attachment' || fileName) {
+    message.attachments.push({
+      fileName: fileName || 'attachment',
+      mimeType: contentType.value || 'application/octet-stream',
+      bytes: decodeBody(entity),
+    });
+    return;
+  }
+
+  if (contentType.value === 'text/plain' && message.plain === null) {
+    message.plain = decodeCharset(decodeBody(entity), contentType.params.charset);
+  } else if (contentType.value === 'text/html' && message.html === null) {
+    message.html = decodeCharset(decodeBody(entity), contentType.params.charset);
+  }
+}
+
+export function parseEmail(raw: string): EmailMessage {
+  const entity = parseEntity(raw);
+  const parts = { plain: null as string | null, html: null as string | null, attachments: [] as EmailAttachment[] };
+  collectParts(entity, parts, 0);
+
+  const from = parseAddress(entity.headers.get('from') ?? entity.headers.get('reply-to'));
+  const bodyText = parts.plain ?? (parts.html ? extractTextFromHtml(parts.html) : null);
+  const body = bodyText?.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim() || null;
+
+  return {
+    fromName: from.name,
+    fromEmail: from.email,
+    subject: decodeEncodedWords(entity.headers.get('subject') ?? '').trim() || null,
+    body,
+    attachments: parts.attachments,
+  };
+}
+
+// mbox stores messages back to back, each starting with a "From sender date" line;
+// lines of the body that started with "From " were escaped as ">From ".
+export function splitMbox(raw: string): string[] {
+  return raw
+    .split(/(?:^|\r?\n)From \S+ [^\r\n]*\d{4}[^\r\n]*\r?\n/)
+    .map((message) => message.replace(/^>(>*From )/gm, '$1'))
+    .filter((message) => message.trim().length > 0);
+}
+
+export function isMailbox(fileName: string, mimeType: string): boolean {
+  return /\.mbox$/i.test(fileName) || (mimeType || '').toLowerCase() === 'application/mbox';
+}
+
+// Reads an .eml or .mbox file into its messages
+export function parseMailFile(bytes: Uint8Array, fileName: string, mimeType: string): EmailMessage[] {
+  const raw = bytesToBinary(bytes);
+  const messages = isMailbox(fileName, mimeType) ? splitMbox(raw) : [raw];
+  return messages.map(parseEmail);
+}
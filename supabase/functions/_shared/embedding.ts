@@ -0,0 +1,104 @@
+// One embedding recipe for every profile, whichever function saves it, so vector
+// search always compares like with like. Each profile records the model and a hash
+// of the text it was embedded from; backfill-embeddings re-embeds any profile whose
+// model or recipe output no longer matches.
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { type LlmProvider } from "./llm.ts";
+import { sha256Hex } from "./resume.ts";
+
+// Bump when buildEmbeddingText changes so every stored embedding counts as stale
+export const EMBEDDING_RECIPE_VERSION = 'profile-v1';
+
+const RESUME_EXCERPT_CHARS = 6000;
+
+// Columns buildEmbeddingText reads; select these when checking profiles for staleness
+export const EMBEDDING_SOURCE_COLUMNS = 'full_name, job_title, sector, location, years_of_experience, skills, experience, education, resume_text';
+
+export interface EmbeddingSource {
+  full_name?: string | null;
+  job_title?: string | null;
+  sector?: string | null;
+  location?: string | null;
+  years_of_experience?: number | null;
+  skills?: string[] | null;
+  experience?: string | null;
+  education?: string | null;
+  resume_text?: string | null;
+}
+
+export interface ProfileEmbedding {
+  embedding: string | null;
+  embedding_model: string | null;
+  embedding_source_hash: string | null;
+}
+
+export const NO_EMBEDDING: ProfileEmbedding = {
+  embedding: null,
+  embedding_model: null,
+  embedding_source_hash: null,
+};
+
+// The extracted summary first, then the start of the resume for the detail it leaves out
+export function buildEmbeddingText(profile: EmbeddingSource): string {
+  const lines = [
+    `Name: ${profile.full_name || 'N/A'}`,
+    `Job Title: ${profile.job_title || 'N/A'}`,
+    `Sector: ${profile.sector || 'N/A'}`,
+    `Location: ${profile.location || 'N/A'}`,
+    `Years of Experience: ${profile.years_of_experience ?? 'N/A'}`,
+    `Skills: ${profile.skills?.join(', ') || 'N/A'}`,
+    `Experience: ${profile.experience || 'N/A'}`,
+    `Education: ${profile.education || 'N/A'}`,
+  ];
+  const resumeText = profile.resume_text?.trim();
+  if (resumeText) lines.push('', `Resume: ${resumeText.substring(0, RESUME_EXCERPT_CHARS)}`);
+  return lines.join('\n');
+}
+
+// Identifies the vector space an embedding lives in
+export function embeddingModelId(llm: LlmProvider): string {
+  return `${llm.name}/${llm.embeddingModel}`;
+}
+
+export function embeddingSourceHash(text: string): Promise<string> {
+  return sha256Hex(new TextEncoder().encode(`${EMBEDDING_RECIPE_VERSION}\n${text}`));
+}
+
+export async function isEmbeddingStale(
+  llm: LlmProvider,
+  profile: EmbeddingSource & { embedding_model: string | null; embedding_source_hash: string | null }
+): Promise<boolean> {
+  if (profile.embedding_model !== embeddingModelId(llm)) return true;
+  return profile.embedding_source_hash !== await embeddingSourceHash(buildEmbeddingText(profile));
+}
+
+// Throws when the provider fails; callers decide whether to save without an embedding
+export async function embedProfile(llm: LlmProvider, profile: EmbeddingSource): Promise<ProfileEmbedding> {
+  const text = buildEmbeddingText(profile);
+  const embedding = await llm.embed(text);
+  if (!embedding.length) throw new Error('Empty embedding');
+  return {
+    embedding: `[${embedding.join(',')}]`,
+    embedding_model: embeddingModelId(llm),
+    embedding_source_hash: await embeddingSourceHash(text),
+  };
+}
+
+// Embeds a profile as it is stored. Save paths call this after writing the row: triggers
+// such as normalize_profile_skills rewrite columns on save, and a hash of the pre-save
+// values would never match what isEmbeddingStale reads back. Throws when it fails.
+export async function saveProfileEmbedding(supabaseClient: SupabaseClient, llm: LlmProvider, profileId: string): Promise<void> {
+  const { data: profile, error: loadError } = await supabaseClient
+    .from('profiles')
+    .select(EMBEDDING_SOURCE_COLUMNS)
+    .eq('id', profileId)
+    .single();
+  if (loadError || !profile) throw loadError ?? new Error(`Profile ${profileId} not found`);
+
+  const embedding = await embedProfile(llm, profile as EmbeddingSource);
+  const { error: updateError } = await supabaseClient
+    .from('profiles')
+    .update(embedding)
+    .eq('id', profileId);
+  if (updateError) throw updateError;
+}
@@ -0,0 +1,56 @@
+// Hard filters for a matching run: the non-negotiables a recruiter already knows. They
+// are applied in SQL by hybrid_match_profiles (see profile_matches_filters), so excluded
+// candidates are never recalled or sent to the model. The same shape is stored on
+// job_searches.filters.
+
+export interface CandidateFilters {
+  // Substring of the candidate's location, ignoring case
+  location?: string;
+  minYears?: number;
+  // Substring of the candidate's sector, ignoring case
+  sector?: string;
+  // Every one must be among the candidate's skills, by name or catalog alias
+  skills?: string[];
+}
+
+const MAX_FILTER_CHARS = 100;
+const MAX_FILTER_SKILLS = 20;
+
+const filterText = (value: unknown): string | undefined => {
+  const text = typeof value === 'string' ? value.trim().substring(0, MAX_FILTER_CHARS) : '';
+  return text || undefined;
+};
+
+// Drops blank and malformed values; null when nothing is left to filter on
+export function parseCandidateFilters(value: unknown): CandidateFilters | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  const filters: CandidateFilters = {};
+  const location = filterText(raw.location);
+  if (location) filters.location = location;
+  const minYears = Number(raw.minYears);
+  if (raw.minYears !== null && raw.minYears !== '' && Number.isFinite(minYears) && minYears > 0) {
+    filters.minYears = minYears;
+  }
+  const sector = filterText(raw.sector);
+  if (sector) filters.sector = sector;
+  if (Array.isArray(raw.skills)) {
+    const skills = new Map<string, string>();
+    for (const skill of raw.skills.map(filterText)) {
+      if (skill && !skills.has(skill.toLowerCase())) skills.set(skill.toLowerCase(), skill);
+    }
+    if (skills.size > 0) filters.skills = [...skills.values()].slice(0, MAX_FILTER_SKILLS);
+  }
+
+  return Object.keys(filters).length > 0 ? filters : null;
+}
+
+export function describeCandidateFilters(filters: CandidateFilters): string {
+  return [
+    filters.location && `location "${filters.location}"`,
+    filters.minYears !== undefined && `${filters.minYears}+ years`,
+    filters.sector && `sector "${filters.sector}"`,
+    filters.skills && `skills ${filters.skills.join(', ')}`,
+  ].filter(Boolean).join('; ');
+}
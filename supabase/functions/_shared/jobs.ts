@@ -0,0 +1,62 @@
+// Job requisitions as read by matching. The structured fields are rendered into the
+// search text and into a requirements block the model scores against, next to the
+// free-text description. Location is left out of the block: the model only sees
+// redacted resumes and could not judge it.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+export interface Job {
+  id: string;
+  title: string;
+  department: string | null;
+  location: string | null;
+  remote_policy: 'onsite' | 'hybrid' | 'remote';
+  min_years: number | null;
+  max_years: number | null;
+  must_have_skills: string[];
+  nice_to_have_skills: string[];
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  description: string | null;
+  status: string;
+}
+
+export async function loadJob(supabaseClient: SupabaseClient, userId: string, jobId: string): Promise<Job | null> {
+  const { data, error } = await supabaseClient
+    .from('jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load job: ${error.message}`);
+  return data as Job | null;
+}
+
+function yearsRangeText(job: Pick<Job, 'min_years' | 'max_years'>): string | null {
+  if (job.min_years !== null && job.max_years !== null) return `${job.min_years}-${job.max_years} years`;
+  if (job.min_years !== null) return `at least ${job.min_years} years`;
+  if (job.max_years !== null) return `up to ${job.max_years} years`;
+  return null;
+}
+
+// What the candidates are recalled by: the skills are repeated in words so the full-text
+// ranking sees them even when the description does not mention them
+export function jobSearchText(job: Job, jobDescription: string): string {
+  return [
+    job.title,
+    job.must_have_skills.join(', '),
+    job.nice_to_have_skills.join(', '),
+    jobDescription || job.description,
+  ].filter(Boolean).join('\n');
+}
+
+export function jobRequirementsPrompt(job: Job): string {
+  const years = yearsRangeText(job);
+  return [
+    `Title: ${job.title}`,
+    job.department && `Department: ${job.department}`,
+    years && `Experience: ${years}`,
+    job.must_have_skills.length > 0 && `Must-have skills: ${job.must_have_skills.join(', ')}`,
+    job.nice_to_have_skills.length > 0 && `Nice-to-have skills: ${job.nice_to_have_skills.join(', ')}`,
+  ].filter(Boolean).join('\n');
+}
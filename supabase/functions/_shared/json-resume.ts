@@ -0,0 +1,124 @@
+// JSON Resume (https://jsonresume.org/schema) import: partner agencies send structured
+// documents, which map straight onto a profile without asking the model. The result has
+// the same shape as a model extraction so the usual normalizers and savers apply.
+import { detectLanguage } from "./language.ts";
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const text = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const objects = (value: unknown): JsonObject[] =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+const yearOf = (date: string | null) => date?.match(/^\d{4}/)?.[0] ?? null;
+
+const highlightsOf = (job: JsonObject) =>
+  (Array.isArray(job.highlights) ? job.highlights.map(text) : []).filter((highlight): highlight is string => highlight !== null);
+
+// Whole years since the earliest start date in the work history
+function yearsSince(work: JsonObject[]): number | null {
+  const starts = work
+    .map((job) => Date.parse(text(job.startDate) ?? ''))
+    .filter((time) => !Number.isNaN(time));
+  if (starts.length === 0) return null;
+  return Math.max(0, Math.floor((Date.now() - Math.min(...starts)) / (365.25 * 24 * 3600 * 1000)));
+}
+
+// Plain-text rendering kept as resume_text so matching and embeddings see the document
+function renderText(basics: JsonObject, location: string | null, work: JsonObject[], education: JsonObject[], skills: string[]): string {
+  const lines = [
+    text(basics.name),
+    text(basics.label),
+    [text(basics.email), text(basics.phone), location].filter(Boolean).join(' | '),
+    text(basics.summary),
+  ];
+
+  if (work.length > 0) {
+    lines.push('', 'Experience');
+    for (const job of work) {
+      const period = [text(job.startDate), text(job.endDate) ?? (text(job.startDate) ? 'Present' : null)].filter(Boolean).join(' - ');
+      lines.push([[text(job.position), text(job.name)].filter(Boolean).join(' at '), period && `(${period})`].filter(Boolean).join(' '));
+      lines.push(text(job.summary), ...highlightsOf(job).map((highlight) => `- ${highlight}`));
+    }
+  }
+
+  if (education.length > 0) {
+    lines.push('', 'Education');
+    for (const record of education) {
+      const degree = [text(record.studyType), text(record.area)].filter(Boolean).join(' in ');
+      const period = [yearOf(text(record.startDate)), yearOf(text(record.endDate))].filter(Boolean).join(' - ');
+      lines.push([degree, text(record.institution), period].filter(Boolean).join(', '));
+    }
+  }
+
+  if (skills.length > 0) lines.push('', `Skills: ${skills.join(', ')}`);
+
+  return lines.filter((line): line is string => line !== null).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Returns null when the text is not JSON or does not look like a JSON Resume document
+export function readJsonResume(raw: string): JsonObject | null {
+  let document: unknown;
+  try {
+    document = JSON.parse(raw);
+  } catch (_error) {
+    return null;
+  }
+  if (!isObject(document) || (!isObject(document.basics) && !Array.isArray(document.work))) return null;
+
+  const basics = isObject(document.basics) ? document.basics : {};
+  const meta = isObject(document.meta) ? document.meta : {};
+  const work = objects(document.work);
+  const education = objects(document.education);
+
+  const place = isObject(basics.location) ? basics.location : {};
+  const location = [text(place.city), text(place.region), text(place.countryCode)].filter(Boolean).join(', ') || null;
+
+  // Skill groups carry the individual skills as keywords
+  const skills = Array.from(new Set(
+    objects(document.skills).flatMap((skill) => [
+      text(skill.name),
+      ...(Array.isArray(skill.keywords) ? skill.keywords.map(text) : []),
+    ]).filter((skill): skill is string => skill !== null)
+  ));
+
+  const firstEducation = education[0];
+  const resumeText = renderText(basics, location, work, education, skills);
+
+  return {
+    full_name: text(basics.name),
+    email: text(basics.email),
+    phone_number: text(basics.phone),
+    location,
+    job_title: text(basics.label) ?? text(work[0]?.position),
+    years_of_experience: typeof meta.yearsOfExperience === 'number' ? meta.yearsOfExperience : yearsSince(work),
+    sector: text(meta.sector),
+    skills,
+    experience: text(basics.summary),
+    education: firstEducation
+      ? [[text(firstEducation.studyType), text(firstEducation.area)].filter(Boolean).join(' in '), text(firstEducation.institution)].filter(Boolean).join(', ') || null
+      : null,
+    positions: work.map((job) => ({
+      company: text(job.name),
+      title: text(job.position),
+      start_date: text(job.startDate),
+      end_date: text(job.endDate) ?? (text(job.startDate) ? 'Present' : null),
+      location: text(job.location),
+      description: [text(job.summary), ...highlightsOf(job).map((highlight) => `- ${highlight}`)].filter(Boolean).join('\n') || null,
+    })),
+    education_history: education.map((record) => ({
+      institution: text(record.institution),
+      degree: text(record.studyType),
+      field_of_study: text(record.area),
+      start_year: yearOf(text(record.startDate)),
+      end_year: yearOf(text(record.endDate)),
+      grade: text(record.score),
+    })),
+    resume_text: resumeText,
+    resume_language: detectLanguage(resumeText),
+  };
+}
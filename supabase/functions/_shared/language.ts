@@ -0,0 +1,103 @@
+// Multilingual resumes: the source language is detected and stored on the profile, and
+// extracted fields are normalized to one working language so skills and titles compare
+// across the pool. The original text is kept alongside whenever it was translated.
+//
+//   WORKING_LANGUAGE   ISO 639-1 code extracted fields are written in (default en)
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  nl: 'Dutch',
+  pt: 'Portuguese',
+  pl: 'Polish',
+  tr: 'Turkish',
+  ar: 'Arabic',
+  ru: 'Russian',
+  zh: 'Chinese',
+  ja: 'Japanese',
+};
+
+const DEFAULT_WORKING_LANGUAGE = 'en';
+
+// Accepts "de", "DE", "de-AT" or "German"
+export function normalizeLanguageCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const s = value.trim().toLowerCase();
+  if (!s) return null;
+  const code = s.split(/[-_]/)[0];
+  if (/^[a-z]{2}$/.test(code)) return code;
+  return Object.entries(LANGUAGE_NAMES).find(([, name]) => name.toLowerCase() === s)?.[0] ?? null;
+}
+
+export function workingLanguage(): string {
+  return normalizeLanguageCode(Deno.env.get('WORKING_LANGUAGE')) ?? DEFAULT_WORKING_LANGUAGE;
+}
+
+const languageName = (code: string) => LANGUAGE_NAMES[code] ?? code;
+
+// Added to every extraction prompt next to the field list
+export const LANGUAGE_PROMPT_FIELD = `- resume_language (ISO 639-1 code of the language the resume is written in, e.g. "en", "de", "fr", "ar")`;
+
+export function languagePromptInstructions(): string {
+  const name = languageName(workingLanguage());
+  return `LANGUAGE: Write job_title, sector, skills, experience, education, positions and education_history in ${name}, translating them when the resume is written in another language. Keep names of people, companies and institutions as written. When the resume is not in ${name}, resume_text must be its full translation into ${name}.`;
+}
+
+// Function words that are frequent in running text and rare in the other languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'with', 'for', 'of', 'to', 'in', 'responsible', 'experience', 'skills'],
+  de: ['und', 'der', 'die', 'das', 'mit', 'für', 'von', 'bei', 'erfahrung', 'kenntnisse'],
+  fr: ['et', 'les', 'des', 'pour', 'avec', 'dans', 'une', 'du', 'expérience', 'compétences'],
+  es: ['y', 'los', 'las', 'para', 'con', 'del', 'una', 'en', 'experiencia', 'habilidades'],
+  it: ['e', 'il', 'della', 'per', 'con', 'nel', 'una', 'degli', 'esperienza', 'competenze'],
+  nl: ['en', 'het', 'van', 'voor', 'met', 'een', 'bij', 'werkervaring', 'ervaring', 'vaardigheden'],
+  pt: ['e', 'os', 'das', 'para', 'com', 'uma', 'em', 'do', 'experiência', 'competências'],
+};
+
+// Script ranges settle the language on their own
+const SCRIPTS: [string, RegExp][] = [
+  ['ar', /[؀-ۿ]/g],
+  ['ru', /[Ѐ-ӿ]/g],
+  ['zh', /[一-鿿]/g],
+  ['ja', /[぀-ヿ]/g],
+];
+
+// Cheap local guess used when the model did not report a language, e.g. rule-based saves
+export function detectLanguage(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const sample = text.slice(0, 5000);
+
+  const letters = sample.replace(/[^\p{L}]/gu, '').length;
+  if (letters === 0) return null;
+  for (const [code, pattern] of SCRIPTS) {
+    if ((sample.match(pattern)?.length ?? 0) / letters > 0.3) return code;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < 20) return null;
+  const counts = Object.entries(STOPWORDS).map(([code, stopwords]) => {
+    const set = new Set(stopwords);
+    return [code, words.filter((word) => set.has(word)).length] as const;
+  });
+  const [best, score] = counts.sort((a, b) => b[1] - a[1])[0];
+  return score >= 3 ? best : null;
+}
+
+// The model's answer wins; the local guess covers rule-based saves. The original text
+// is only stored when the profile's resume_text holds a translation of it, which only
+// the model produces.
+export function resolveLanguageFields(
+  reportedLanguage: unknown,
+  originalText: string | null | undefined,
+  aiExtracted: boolean
+): { resume_language: string | null; original_resume_text: string | null } {
+  const language = normalizeLanguageCode(reportedLanguage) ?? detectLanguage(originalText);
+  const translated = aiExtracted && !!language && language !== workingLanguage();
+  return {
+    resume_language: language,
+    original_resume_text: translated && originalText ? originalText : null,
+  };
+}
@@ -0,0 +1,316 @@
+// Shared LLM provider layer for all edge functions.
+//
+// Every function talks to the model through `LlmProvider` (generate JSON, embed text).
+// The concrete backend is chosen by configuration so staging can point at a
+// self-hosted model or a mock server without touching function code:
+//
+//   LLM_PROVIDER        gemini (default) | openai | local
+//   LLM_MODEL           generation model override
+//   EMBEDDING_MODEL     embedding model override
+//   LLM_BASE_URL        base URL for openai-compatible / local providers
+//   LLM_API_KEY         API key for openai-compatible / local providers
+//   EMBEDDING_DIMENSIONS  vector size requested from providers that support it (default 768)
+
+export type LlmPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface LlmGenerateRequest {
+  parts: LlmPart[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly embeddingModel: string;
+  // Returns the raw JSON text produced by the model; callers parse it themselves
+  generateJson(request: LlmGenerateRequest): Promise<string>;
+  embed(text: string): Promise<number[]>;
+}
+
+export class LlmError extends Error {
+  status?: number;
+  finishReason?: string;
+
+  constructor(message: string, options: { status?: number; finishReason?: string } = {}) {
+    super(message);
+    this.name = 'LlmError';
+    this.status = options.status;
+    this.finishReason = options.finishReason;
+  }
+}
+
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmConfigError';
+  }
+}
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 768;
+
+function embeddingDimensions(): number {
+  const configured = parseInt(Deno.env.get('EMBEDDING_DIMENSIONS') ?? '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_EMBEDDING_DIMENSIONS;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs?: number): Promise<Response> {
+  if (!timeoutMs) return fetch(url, init);
+
+  const abortController = new AbortController();
+  const timeoutId = setTimeout(() => abortController.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: abortController.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function throwForStatus(response: Response, label: string): Promise<void> {
+  if (response.ok) return;
+  const errorText = await response.text();
+  throw new LlmError(`${label} error: ${response.status} - ${errorText.substring(0, 500)}`, {
+    status: response.status,
+  });
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly embeddingModel: string;
+  private apiKey: string;
+
+  constructor(apiKey: string, model = 'gemini-2.5-flash', embeddingModel = 'text-embedding-004') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.embeddingModel = embeddingModel;
+  }
+
+  async generateJson(request: LlmGenerateRequest): Promise<string> {
+    const response = await fetchWithTimeout(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts: request.parts }],
+          generationConfig: {
+            temperature: request.temperature ?? 0,
+            maxOutputTokens: request.maxOutputTokens ?? 8192,
+            responseMimeType: 'application/json',
+          },
+          safetySettings: [
+            { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+            { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+            { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
+            { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
+          ],
+        }),
+      },
+      request.timeoutMs,
+    );
+    await throwForStatus(response, 'Gemini API');
+
+    const result = await response.json();
+    const text = result.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    if (!text) {
+      const finishReason = result.candidates?.[0]?.finishReason;
+      throw new LlmError(`Gemini returned empty response (reason: ${finishReason || 'unknown'})`, { finishReason });
+    }
+    return text;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.embeddingModel}:embedContent?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: `models/${this.embeddingModel}`,
+          content: { parts: [{ text }] },
+        }),
+      },
+    );
+    await throwForStatus(response, 'Gemini embedding');
+
+    const result = await response.json();
+    const values = result.embedding?.values;
+    if (!Array.isArray(values)) throw new LlmError('Gemini embedding response missing values');
+    return values;
+  }
+}
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly embeddingModel: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl = 'https://api.openai.com/v1', model = 'gpt-4o-mini', embeddingModel = 'text-embedding-3-small') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.embeddingModel = embeddingModel;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  async generateJson(request: LlmGenerateRequest): Promise<string> {
+    // Images map to image_url parts; anything else (e.g. PDFs) is sent as a file part
+    const content = request.parts.map((part) => {
+      if ('text' in part) return { type: 'text', text: part.text };
+      const dataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      if (part.inlineData.mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: dataUrl } };
+      }
+      return { type: 'file', file: { filename: 'document', file_data: dataUrl } };
+    });
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content }],
+          temperature: request.temperature ?? 0,
+          max_tokens: request.maxOutputTokens ?? 8192,
+          response_format: { type: 'json_object' },
+        }),
+      },
+      request.timeoutMs,
+    );
+    await throwForStatus(response, 'OpenAI-compatible API');
+
+    const result = await response.json();
+    const text = result.choices?.[0]?.message?.content || '';
+    if (!text) {
+      const finishReason = result.choices?.[0]?.finish_reason === 'length' ? 'MAX_TOKENS' : result.choices?.[0]?.finish_reason;
+      throw new LlmError(`Model returned empty response (reason: ${finishReason || 'unknown'})`, { finishReason });
+    }
+    return text;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.embeddingModel,
+        input: text,
+        dimensions: embeddingDimensions(),
+      }),
+    });
+    await throwForStatus(response, 'OpenAI-compatible embedding');
+
+    const result = await response.json();
+    const values = result.data?.[0]?.embedding;
+    if (!Array.isArray(values)) throw new LlmError('Embedding response missing values');
+    return values;
+  }
+}
+
+// Minimal HTTP contract for self-hosted models and mock servers:
+//   POST {base}/generate  { parts, temperature, maxOutputTokens, model } -> { text }
+//   POST {base}/embed     { text, model, dimensions }                    -> { embedding: number[] }
+export class LocalHttpProvider implements LlmProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly embeddingModel: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, apiKey = '', model = 'local', embeddingModel = 'local-embedding') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+    this.embeddingModel = embeddingModel;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  async generateJson(request: LlmGenerateRequest): Promise<string> {
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/generate`,
+      {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.model,
+          parts: request.parts,
+          temperature: request.temperature ?? 0,
+          maxOutputTokens: request.maxOutputTokens ?? 8192,
+        }),
+      },
+      request.timeoutMs,
+    );
+    await throwForStatus(response, 'Local LLM');
+
+    const result = await response.json();
+    const text = typeof result.text === 'string' ? result.text : '';
+    if (!text) throw new LlmError('Local LLM returned empty response', { finishReason: result.finishReason });
+    return text;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(`${this.baseUrl}/embed`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.embeddingModel, text, dimensions: embeddingDimensions() }),
+    });
+    await throwForStatus(response, 'Local embedding');
+
+    const result = await response.json();
+    if (!Array.isArray(result.embedding)) throw new LlmError('Local embedding response missing values');
+    return result.embedding;
+  }
+}
+
+// Builds one provider per configured credential so callers can spread parallel
+// batches across them. `geminiKeyNames` lists the env vars holding Gemini keys;
+// other providers share a single LLM_API_KEY and return a one-element pool.
+export function createLlmProviders(geminiKeyNames: string[]): LlmProvider[] {
+  const providerName = (Deno.env.get('LLM_PROVIDER') ?? 'gemini').toLowerCase();
+  const model = Deno.env.get('LLM_MODEL') || undefined;
+  const embeddingModel = Deno.env.get('EMBEDDING_MODEL') || undefined;
+  const baseUrl = Deno.env.get('LLM_BASE_URL') || undefined;
+  const apiKey = Deno.env.get('LLM_API_KEY') ?? '';
+
+  switch (providerName) {
+    case 'gemini': {
+      const missingKeys = geminiKeyNames.filter((name) => !Deno.env.get(name));
+      if (missingKeys.length > 0) {
+        throw new LlmConfigError(`Missing API keys: ${missingKeys.join(', ')}`);
+      }
+      return geminiKeyNames.map((name) => new GeminiProvider(Deno.env.get(name)!, model, embeddingModel));
+    }
+    case 'openai': {
+      if (!apiKey && !baseUrl) {
+        throw new LlmConfigError('LLM_API_KEY or LLM_BASE_URL must be set for the openai provider');
+      }
+      return [new OpenAICompatibleProvider(apiKey, baseUrl, model, embeddingModel)];
+    }
+    case 'local': {
+      if (!baseUrl) throw new LlmConfigError('LLM_BASE_URL must be set for the local provider');
+      return [new LocalHttpProvider(baseUrl, apiKey, model, embeddingModel)];
+    }
+    default:
+      throw new LlmConfigError(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+}
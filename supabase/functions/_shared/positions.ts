@@ -0,0 +1,103 @@
+// Structured work history: normalizes the "positions" array from the extraction prompt
+// and stores it in candidate_positions, one row per job.
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { sanitizeString } from "./resume.ts";
+
+export interface NormalizedPosition {
+  company: string | null;
+  title: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  is_current: boolean;
+  description: string | null;
+  location: string | null;
+}
+
+// Added to every extraction prompt so the model returns positions in the same shape
+export const POSITIONS_PROMPT_FIELD = `- positions (array of every job held, most recent first: {"company", "title", "start_date" ("YYYY-MM" or "YYYY"), "end_date" ("YYYY-MM", "YYYY" or "Present"), "location", "description" (max 200 chars)})`;
+
+const MAX_POSITIONS = 30;
+const CURRENT_PATTERN = /^(present|current|now|today|ongoing|to date)$/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Dates are stored as the first day of the month; anything without a 4-digit year is dropped
+export function parsePositionDate(value: unknown): string | null {
+  const s = sanitizeString(value, 40);
+  if (!s) return null;
+
+  const iso = s.match(/^(\d{4})(?:[-/.](\d{1,2}))?(?:[-/.]\d{1,2})?$/);
+  if (iso) return toDate(iso[1], iso[2]);
+
+  const monthFirst = s.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (monthFirst) return toDate(monthFirst[2], monthFirst[1]);
+
+  const named = s.match(/^([a-z]{3,})\.?,?\s+(\d{4})$/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase());
+    if (month !== -1) return toDate(named[2], String(month + 1));
+  }
+
+  const yearOnly = s.match(/\b(19|20)\d{2}\b/);
+  return yearOnly ? toDate(yearOnly[0], undefined) : null;
+}
+
+function toDate(year: string, month: string | undefined): string | null {
+  const y = parseInt(year, 10);
+  const m = month ? parseInt(month, 10) : 1;
+  if (y < 1900 || y > 2100 || m < 1 || m > 12) return null;
+  return `${y}-${String(m).padStart(2, '0')}-01`;
+}
+
+export function normalizePositions(value: unknown): NormalizedPosition[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .slice(0, MAX_POSITIONS)
+    .map((raw: Record<string, unknown> | null): NormalizedPosition | null => {
+      if (!raw || typeof raw !== 'object') return null;
+      const company = sanitizeString(raw.company, 200);
+      const title = sanitizeString(raw.title ?? raw.job_title, 200);
+      if (!company && !title) return null;
+
+      const endRaw = sanitizeString(raw.end_date, 40);
+      const isCurrent = raw.is_current === true || (!!endRaw && CURRENT_PATTERN.test(endRaw));
+      const start = parsePositionDate(raw.start_date);
+      let end = isCurrent ? null : parsePositionDate(endRaw);
+      // A reversed range is more likely a misread than a real job, keep the start only
+      if (start && end && end < start) end = null;
+
+      return {
+        company,
+        title,
+        start_date: start,
+        end_date: end,
+        is_current: isCurrent,
+        description: sanitizeString(raw.description, 1000),
+        location: sanitizeString(raw.location, 200),
+      };
+    })
+    .filter((p): p is NormalizedPosition => p !== null);
+}
+
+// Positions are secondary data: a failure is logged and never fails the profile itself
+export async function savePositions(
+  supabaseClient: SupabaseClient,
+  profileId: string,
+  userId: string,
+  positions: NormalizedPosition[]
+): Promise<void> {
+  if (positions.length === 0) return;
+
+  const { error } = await supabaseClient.from('candidate_positions').insert(
+    positions.map((position, index) => ({
+      ...position,
+      profile_id: profileId,
+      user_id: userId,
+      position_index: index,
+    }))
+  );
+
+  if (error) {
+    console.error(`[POSITIONS] Failed to save ${positions.length} position(s) for profile ${profileId}:`, error);
+  }
+}
@@ -0,0 +1,61 @@
+// Review queue for extractions that fail validation: they are kept in
+// quarantined_candidates with their source file until a recruiter completes them.
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// A profile needs all of these; anything short of it goes to the review queue
+export const REQUIRED_PROFILE_FIELDS = ['full_name', 'email', 'job_title', 'sector', 'skills'] as const;
+
+export function missingRequiredFields(candidate: Record<string, unknown> | null | undefined): string[] {
+  return REQUIRED_PROFILE_FIELDS.filter((field) => {
+    const value = candidate?.[field];
+    return Array.isArray(value) ? value.length === 0 : !value;
+  });
+}
+
+export interface QuarantineInput {
+  userId: string;
+  fileName: string;
+  resumeFileUrl: string | null;
+  contentHash: string | null;
+  source?: string | null;
+  candidate: Record<string, unknown>;
+  missingFields: string[];
+}
+
+// Returns the queue entry's ID. The same file is only queued once while it awaits review.
+export async function quarantineCandidate(supabaseClient: SupabaseClient, input: QuarantineInput): Promise<string | null> {
+  if (input.contentHash) {
+    const { data: existing } = await supabaseClient
+      .from('quarantined_candidates')
+      .select('id')
+      .eq('user_id', input.userId)
+      .eq('content_hash', input.contentHash)
+      .eq('status', 'pending')
+      .maybeSingle();
+    if (existing) return existing.id;
+  }
+
+  // resume_text gets its own column; the raw file fields are already on the row
+  const { resume_text, resume_file_url: _url, ...extracted } = input.candidate;
+
+  const { data, error } = await supabaseClient
+    .from('quarantined_candidates')
+    .insert({
+      user_id: input.userId,
+      file_name: input.fileName,
+      resume_file_url: input.resumeFileUrl,
+      content_hash: input.contentHash,
+      source: input.source ?? null,
+      extracted,
+      resume_text: typeof resume_text === 'string' ? resume_text : null,
+      missing_fields: input.missingFields,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error(`[QUARANTINE] Failed to queue ${input.fileName} for review:`, error);
+    return null;
+  }
+  return data.id;
+}
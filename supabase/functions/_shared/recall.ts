@@ -0,0 +1,158 @@
+// First stage of matching: narrow the pool to the candidates worth sending to the model.
+// Candidates are ranked by the hybrid_match_profiles RPC, which fuses full-text rank and
+// embedding similarity, so profiles that are not embedded with the current model (or
+// at all) are still found through their words.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { LlmProvider } from "./llm.ts";
+import { embeddingModelId } from "./embedding.ts";
+import type { CandidateFilters } from "./filters.ts";
+import type { IdentityFields } from "./redaction.ts";
+
+const DEFAULT_RECALL_COUNT = 50;
+const DEFAULT_RECALL_THRESHOLD = 0.2;
+const MAX_RECALL_COUNT = 500;
+// Same cut-off as the embedding input
+const MAX_QUERY_CHARS = 9000;
+
+export interface RecallOptions {
+  // Candidates recalled after fusion
+  count: number;
+  // Minimum cosine similarity for the embedding ranking
+  threshold: number;
+}
+
+// The profile columns the ranking stage reads; recalled rows carry every column
+export type RecalledProfile = IdentityFields & {
+  id: string;
+  job_title: string | null;
+  resume_text: string | null;
+  resume_file_url: string | null;
+  created_at: string | null;
+  years_of_experience: number | null;
+};
+
+export interface RecallResult {
+  // Best fused score first
+  profiles: RecalledProfile[];
+  poolSize: number;
+  // Profiles that pass the hard filters; the whole pool when there are none
+  eligibleCount: number;
+  // Recalled profiles found by each ranking; a profile can be found by both
+  semanticMatches: number;
+  keywordMatches: number;
+  // Reused to find the best-matching resume sections of the ranked candidates
+  queryEmbedding: number[] | null;
+  // Set when the job description could not be embedded and only full text was searched
+  vectorError: string | null;
+}
+
+// Request values win over the MATCH_RECALL_COUNT / MATCH_RECALL_THRESHOLD secrets
+export function recallOptions(requested: { recallCount?: unknown; recallThreshold?: unknown }): RecallOptions {
+  const count = Number(requested.recallCount ?? Deno.env.get('MATCH_RECALL_COUNT') ?? DEFAULT_RECALL_COUNT);
+  const threshold = Number(requested.recallThreshold ?? Deno.env.get('MATCH_RECALL_THRESHOLD') ?? DEFAULT_RECALL_THRESHOLD);
+  return {
+    count: Number.isFinite(count) && count > 0 ? Math.min(Math.floor(count), MAX_RECALL_COUNT) : DEFAULT_RECALL_COUNT,
+    threshold: Number.isFinite(threshold) && threshold >= -1 && threshold < 1 ? threshold : DEFAULT_RECALL_THRESHOLD,
+  };
+}
+
+export interface HybridMatch {
+  profile_id: string;
+  score: number;
+  text_rank: number | null;
+  similarity: number | null;
+  lexical_rank: number | null;
+  semantic_rank: number | null;
+}
+
+export interface HybridSearchResult {
+  matches: HybridMatch[];
+  queryEmbedding: number[] | null;
+  vectorError: string | null;
+}
+
+// Ranks the user's profiles against the text. A failed embedding degrades the search to
+// full text rather than failing it.
+export async function hybridSearch(
+  supabaseClient: SupabaseClient,
+  llm: LlmProvider,
+  userId: string,
+  text: string,
+  options: RecallOptions & { matchAnyTerm: boolean; filters?: CandidateFilters | null }
+): Promise<HybridSearchResult> {
+  const query = text.substring(0, MAX_QUERY_CHARS);
+
+  let queryEmbedding: number[] | null = null;
+  let vectorError: string | null = null;
+  try {
+    queryEmbedding = await llm.embed(query);
+  } catch (embedError) {
+    vectorError = embedError instanceof Error ? embedError.message : String(embedError);
+    console.error('[SEARCH] Embedding the query failed, searching full text only:', embedError);
+  }
+
+  const { data, error } = await supabaseClient.rpc('hybrid_match_profiles', {
+    query_text: query,
+    query_embedding: queryEmbedding ? `[${queryEmbedding.join(',')}]` : null,
+    match_count: options.count,
+    filter_user_id: userId,
+    match_threshold: options.threshold,
+    filter_embedding_model: embeddingModelId(llm),
+    match_any_term: options.matchAnyTerm,
+    match_filters: options.filters ?? null,
+  });
+  if (error) throw new Error(`Hybrid search failed: ${error.message}`);
+
+  return { matches: (data ?? []) as HybridMatch[], queryEmbedding, vectorError };
+}
+
+export async function recallCandidates(
+  supabaseClient: SupabaseClient,
+  llm: LlmProvider,
+  userId: string,
+  jobDescription: string,
+  options: RecallOptions,
+  filters: CandidateFilters | null = null
+): Promise<RecallResult> {
+  const { count: poolSize, error: countError } = await supabaseClient
+    .from('profiles')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+  if (countError) throw new Error(`Failed to count profiles: ${countError.message}`);
+
+  let eligibleCount = poolSize ?? 0;
+  if (filters) {
+    const { data, error } = await supabaseClient.rpc('count_matching_profiles', {
+      filter_user_id: userId,
+      match_filters: filters,
+    });
+    if (error) throw new Error(`Failed to apply filters: ${error.message}`);
+    eligibleCount = (data as number | null) ?? 0;
+  }
+
+  // Any word of a job description counts; the fused rank sorts out how many matched
+  const { matches, queryEmbedding, vectorError } = eligibleCount === 0
+    ? { matches: [], queryEmbedding: null, vectorError: null }
+    : await hybridSearch(supabaseClient, llm, userId, jobDescription, { ...options, matchAnyTerm: true, filters });
+
+  let profiles: RecalledProfile[] = [];
+  if (matches.length > 0) {
+    const { data, error } = await supabaseClient
+      .from('profiles')
+      .select('*')
+      .in('id', matches.map((match) => match.profile_id));
+    if (error) throw new Error(`Failed to load recalled profiles: ${error.message}`);
+    const byId = new Map(((data ?? []) as RecalledProfile[]).map((profile) => [profile.id, profile]));
+    profiles = matches.flatMap((match) => byId.get(match.profile_id) ?? []);
+  }
+
+  return {
+    profiles,
+    poolSize: poolSize ?? 0,
+    eligibleCount,
+    semanticMatches: matches.filter((match) => match.semantic_rank !== null).length,
+    keywordMatches: matches.filter((match) => match.lexical_rank !== null).length,
+    queryEmbedding,
+    vectorError,
+  };
+}
@@ -0,0 +1,48 @@
+// PII redaction for text sent to the model when scoring candidates, so it never sees the
+// identity it scores. Mirrors src/lib/redaction.ts, which the blind review mode uses on screen.
+
+export interface IdentityFields {
+  full_name?: string | null;
+  email?: string | null;
+  phone_number?: string | null;
+  location?: string | null;
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b(?:linkedin|github|twitter|facebook|instagram)\.com\/\S*/gi;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}/g;
+// Lines that describe the person rather than the work: date of birth, photo captions, etc.
+const PERSONAL_LINE_PATTERN = /^[ \t]*(?:date of birth|birth ?date|dob|born|age|gender|sex|marital status|nationality|citizenship|religion|photo|picture)[ \t]*[:-].*$/gim;
+
+// Short digit runs and year ranges like 2019-2021 are dates, not phone numbers
+const YEAR_RANGE_PATTERN = /^(?:19|20)\d{2}\D+(?:19|20)\d{2}$/;
+const isPhoneNumber = (match: string) => match.replace(/\D/g, '').length >= 8 && !YEAR_RANGE_PATTERN.test(match);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so "Ann" does not eat the middle of "Annual"
+const replaceTerms = (text: string, terms: string[], replacement: string) => {
+  const unique = Array.from(new Set(terms.map((term) => term.trim()).filter((term) => term.length >= 2)));
+  if (unique.length === 0) return text;
+  // Longest first so "New York" wins over "York"
+  const alternation = unique.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  return text.replace(new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternation})(?![\\p{L}\\p{N}])`, 'giu'), replacement);
+};
+
+export function redactPii(text: string | null | undefined, identity: IdentityFields = {}): string {
+  if (!text) return '';
+
+  let redacted = text
+    .replace(PERSONAL_LINE_PATTERN, '[REDACTED]')
+    .replace(EMAIL_PATTERN, '[EMAIL]')
+    .replace(URL_PATTERN, '[LINK]')
+    .replace(PHONE_PATTERN, (match) => (isPhoneNumber(match) ? '[PHONE]' : match));
+
+  if (identity.full_name) {
+    redacted = replaceTerms(redacted, [identity.full_name, ...identity.full_name.split(/\s+/)], '[NAME]');
+  }
+  if (identity.location) {
+    redacted = replaceTerms(redacted, [identity.location, ...identity.location.split(',')], '[LOCATION]');
+  }
+  return redacted;
+}
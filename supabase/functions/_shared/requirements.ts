@@ -0,0 +1,103 @@
+// Requirements checklist: the job description is parsed once per search into discrete
+// requirements, every candidate is judged against each of them with a resume quote as
+// evidence, and the match score is derived from those judgements instead of being a
+// single number the model picks.
+import type { LlmProvider } from "./llm.ts";
+
+export type RequirementImportance = 'must' | 'nice';
+export type RequirementStatus = 'met' | 'partial' | 'missing';
+
+export interface Requirement {
+  id: string;
+  text: string;
+  importance: RequirementImportance;
+}
+
+export interface RequirementResult {
+  requirementId: string;
+  status: RequirementStatus;
+  evidence: string | null;
+}
+
+const MAX_REQUIREMENTS = 12;
+const MAX_REQUIREMENT_CHARS = 120;
+const MAX_EVIDENCE_QUOTE_CHARS = 160;
+
+// Must-haves count three times as much as nice-to-haves; a partial match earns half
+const IMPORTANCE_WEIGHTS: Record<RequirementImportance, number> = { must: 3, nice: 1 };
+const STATUS_CREDIT: Record<RequirementStatus, number> = { met: 1, partial: 0.5, missing: 0 };
+
+const stripFences = (text: string) => text.replace(/^```json\n?/, '').replace(/\n?```$/, '').trim();
+
+export async function parseRequirements(
+  llm: LlmProvider,
+  jobDescription: string,
+  structuredRequirements: string | null,
+): Promise<Requirement[]> {
+  const jsonText = await llm.generateJson({
+    parts: [{
+      text: `Job Description:\n${jobDescription}\n\n${structuredRequirements ? `Structured Requirements:\n${structuredRequirements}\n\n` : ''}Split the job into the discrete requirements a candidate's resume can be checked against, such as a skill, a qualification, a certification, a domain or an amount of experience.\n\nReturn ONLY valid JSON in this exact format:\n\n{"requirements": [{"text": "5+ years of backend development", "importance": "must"}, {"text": "Kubernetes", "importance": "nice"}]}\n\nRULES:\n1. At most ${MAX_REQUIREMENTS} requirements, most important first; merge near-duplicates\n2. text: one short, checkable statement (max 80 characters)\n3. importance: "must" for required or essential items, "nice" for preferred, bonus or optional ones\n4. Every must-have skill in the structured requirements is its own "must" requirement\n5. Leave out location, salary, benefits and anything about the company itself`
+    }],
+    temperature: 0,
+    maxOutputTokens: 2048,
+  });
+
+  const parsed = JSON.parse(stripFences(jsonText));
+  if (!Array.isArray(parsed?.requirements)) throw new Error('Response missing requirements array');
+
+  const seen = new Set<string>();
+  const requirements: Requirement[] = [];
+  for (const item of parsed.requirements) {
+    const text = typeof item?.text === 'string' ? item.text.trim().substring(0, MAX_REQUIREMENT_CHARS) : '';
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    requirements.push({
+      id: `R${requirements.length + 1}`,
+      text,
+      importance: item.importance === 'nice' ? 'nice' : 'must',
+    });
+    if (requirements.length === MAX_REQUIREMENTS) break;
+  }
+  return requirements;
+}
+
+// One result per requirement, in checklist order; anything the model skipped counts as
+// missing, and a quote is only kept where something was found
+export function normalizeRequirementResults(requirements: Requirement[], raw: unknown): RequirementResult[] {
+  const byId = new Map<string, { status?: unknown; evidence?: unknown }>();
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      if (item && typeof item.id === 'string') byId.set(item.id, item);
+    }
+  }
+
+  return requirements.map((requirement) => {
+    const item = byId.get(requirement.id);
+    const status: RequirementStatus = item?.status === 'met' || item?.status === 'partial' ? item.status : 'missing';
+    const quote = status !== 'missing' && typeof item?.evidence === 'string' ? item.evidence.trim() : '';
+    return {
+      requirementId: requirement.id,
+      status,
+      evidence: quote ? quote.substring(0, MAX_EVIDENCE_QUOTE_CHARS) : null,
+    };
+  });
+}
+
+export function requirementsScore(requirements: Requirement[], results: RequirementResult[]): number {
+  const statusById = new Map(results.map((result) => [result.requirementId, result.status]));
+  let earned = 0;
+  let possible = 0;
+  for (const requirement of requirements) {
+    const weight = IMPORTANCE_WEIGHTS[requirement.importance];
+    possible += weight;
+    earned += weight * STATUS_CREDIT[statusById.get(requirement.id) ?? 'missing'];
+  }
+  return possible === 0 ? 0 : Math.round((earned / possible) * 100);
+}
+
+// The checklist as the model sees it in the scoring prompt
+export function requirementsPrompt(requirements: Requirement[]): string {
+  return requirements
+    .map((requirement) => `${requirement.id} [${requirement.importance === 'must' ? 'must-have' : 'nice-to-have'}]: ${requirement.text}`)
+    .join('\n');
+}
@@ -0,0 +1,123 @@
+// Shared resume helpers: input sanitizing, model output parsing and profile normalization
+
+export function sanitizeString(input: unknown, maxLen = 120_000): string | null {
+  if (input === null || input === undefined) return null;
+  let s = String(input);
+  s = s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, ' ');
+  s = s.replace(/\s{3,}/g, ' ');
+  if (s.length > maxLen) s = s.slice(0, maxLen);
+  s = s.trim();
+  return s.length ? s : null;
+}
+
+export function sanitizeStringArray(value: unknown, maxItems = 128): string[] | null {
+  if (!value) return null;
+  let arr: string[] = [];
+  if (Array.isArray(value)) {
+    arr = value.map((v) => sanitizeString(v)).filter((v): v is string => !!v);
+  } else if (typeof value === 'string') {
+    arr = value.split(/[;,\n]/).map((v) => sanitizeString(v)).filter((v): v is string => !!v);
+  }
+  if (!arr.length) return null;
+  if (arr.length > maxItems) arr = arr.slice(0, maxItems);
+  const seen = new Set<string>();
+  return arr.filter((v) => (seen.has(v) ? false : (seen.add(v), true)));
+}
+
+export function coerceInt(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const cleaned = String(value).replace(/[^\d.-]/g, '');
+  const n = parseFloat(cleaned);
+  return Number.isFinite(n) && !isNaN(n) ? Math.floor(n) : null;
+}
+
+export function safeJsonParse(text: string): any | null {
+  if (!text || typeof text !== 'string') return null;
+  let s = text.replace(/^```json\n?|```$/gim, '').trim();
+  s = s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, ' ');
+  try { return JSON.parse(s); } catch (_e) { /* fall through to brace extraction */ }
+  const start = s.indexOf('{');
+  const end = s.lastIndexOf('}');
+  if (start !== -1 && end !== -1 && end > start) {
+    const candidate = s.slice(start, end + 1);
+    try { return JSON.parse(candidate); } catch (_e) { /* unparseable */ }
+  }
+  return null;
+}
+
+export function normalizeProfile(parsed: any, fallbackResumeText: string | null, fileUrl: string | null) {
+  return {
+    full_name: sanitizeString(parsed?.full_name),
+    email: sanitizeString(parsed?.email),
+    phone_number: sanitizeString(parsed?.phone_number),
+    location: sanitizeString(parsed?.location),
+    job_title: sanitizeString(parsed?.job_title),
+    years_of_experience: coerceInt(parsed?.years_of_experience),
+    sector: sanitizeString(parsed?.sector),
+    skills: sanitizeStringArray(parsed?.skills),
+    experience: sanitizeString(parsed?.experience),
+    education: sanitizeString(parsed?.education),
+    resume_text: sanitizeString(parsed?.resume_text) ?? fallbackResumeText,
+    resume_file_url: fileUrl,
+  };
+}
+
+export type NormalizedProfile = ReturnType<typeof normalizeProfile>;
+
+export type ExtractedProfileFields = Omit<NormalizedProfile, 'resume_file_url'>;
+
+export const EXTRACTED_PROFILE_COLUMNS =
+  'full_name, email, phone_number, location, job_title, years_of_experience, sector, skills, experience, education, resume_text';
+
+// A rule-based fallback extracts far less than the model. When it replaces an existing
+// candidate's resume, fields it could not read keep their current values instead of being wiped.
+export function keepCurrentFields(fallback: NormalizedProfile, current: ExtractedProfileFields): NormalizedProfile {
+  return {
+    full_name: fallback.full_name ?? current.full_name,
+    email: fallback.email ?? current.email,
+    phone_number: fallback.phone_number ?? current.phone_number,
+    location: fallback.location ?? current.location,
+    job_title: fallback.job_title ?? current.job_title,
+    years_of_experience: fallback.years_of_experience ?? current.years_of_experience,
+    sector: fallback.sector ?? current.sector,
+    skills: fallback.skills?.length ? fallback.skills : current.skills,
+    experience: fallback.experience ?? current.experience,
+    education: fallback.education ?? current.education,
+    resume_text: fallback.resume_text ?? current.resume_text,
+    resume_file_url: fallback.resume_file_url,
+  };
+}
+
+// Storage keys must be ASCII: strip diacritics and replace anything unusual with underscores
+export function sanitizeStorageFileName(fileName: string): string {
+  return fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
+    .replace(/[^\x00-\x7F]/g, '_') // Replace non-ASCII with underscore
+    .replace(/[^a-zA-Z0-9._-]/g, '_') // Replace special chars with underscore
+    .replace(/_+/g, '_'); // Replace multiple underscores with single
+}
+
+// Resume files live under the owner's folder; the storage and ingestion_items policies only
+// let a user reach objects whose first path segment is their own ID. ResumeUpload builds
+// the same paths with userStoragePath in src/lib/resumeFiles.ts.
+export function userStoragePath(userId: string, fileName: string, index?: number): string {
+  const prefix = index === undefined ? `${Date.now()}` : `${Date.now()}_${index}`;
+  return `${userId}/${prefix}_${sanitizeStorageFileName(fileName)}`;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
+    binary += String.fromCharCode(...chunk);
+  }
+  return btoa(binary);
+}
+
+// Content hash used to recognise a file that was already imported
+export async function sha256Hex(bytes: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,155 @@
+// Deterministic resume extraction used when the LLM is unavailable. It only looks at
+// plain text, never calls out to the network, and returns the same field names the
+// LLM prompt asks for so the result can go through normalizeProfile unchanged.
+
+export interface RuleExtraction {
+  full_name: string | null;
+  email: string | null;
+  phone_number: string | null;
+  job_title: string | null;
+  years_of_experience: number | null;
+  skills: string[];
+  experience: string | null;
+  education: string | null;
+  resume_text: string | null;
+  urls: string[];
+}
+
+type SectionName = 'experience' | 'education' | 'skills';
+
+const SECTION_HEADINGS: Record<SectionName, RegExp> = {
+  experience: /^(work\s+|professional\s+)?(experience|employment(\s+history)?|work\s+history|career\s+history)$/i,
+  education: /^(education|academic\s+background|qualifications|education\s+(and|&)\s+training)$/i,
+  skills: /^((technical|core|key)\s+)?(skills|competencies|technologies|expertise)$/i,
+};
+
+// Matched on word boundaries (case-sensitively for short names like Go or R); the listed
+// spelling is what gets stored
+const SKILLS_DICTIONARY = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C#', 'C++', 'Go', 'Rust', 'Ruby', 'PHP', 'Kotlin', 'Swift',
+  'Scala', 'R', 'MATLAB', 'SQL', 'NoSQL', 'HTML', 'CSS', 'Sass', 'React', 'Angular', 'Vue', 'Next.js',
+  'Node.js', 'Express', 'Django', 'Flask', 'FastAPI', 'Spring Boot', '.NET', 'Laravel', 'Rails', 'GraphQL',
+  'REST', 'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch', 'Kafka', 'RabbitMQ', 'Docker',
+  'Kubernetes', 'Terraform', 'Ansible', 'Jenkins', 'CI/CD', 'Git', 'Linux', 'AWS', 'Azure', 'GCP',
+  'Supabase', 'Firebase', 'Machine Learning', 'Deep Learning', 'TensorFlow', 'PyTorch', 'Pandas',
+  'NumPy', 'Spark', 'Hadoop', 'Tableau', 'Power BI', 'Excel', 'Data Analysis', 'Statistics',
+  'Figma', 'Photoshop', 'Illustrator', 'UX', 'UI Design', 'Agile', 'Scrum', 'Kanban', 'Jira',
+  'Project Management', 'Product Management', 'Stakeholder Management', 'Business Analysis',
+  'Salesforce', 'SAP', 'HubSpot', 'SEO', 'Digital Marketing', 'Content Marketing', 'Copywriting',
+  'Sales', 'Negotiation', 'Customer Service', 'Accounting', 'Bookkeeping', 'Financial Analysis',
+  'Budgeting', 'Auditing', 'Recruitment', 'Payroll', 'Leadership', 'Team Management', 'Communication',
+  'Public Speaking', 'Training', 'Logistics', 'Supply Chain', 'Procurement', 'AutoCAD', 'SolidWorks',
+  'Nursing', 'Patient Care', 'Teaching', 'Research', 'Microsoft Office', 'English', 'French', 'Arabic',
+  'Spanish', 'German',
+];
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE_PATTERN = /(\+?\d[\d\s().-]{7,}\d)/;
+const DATE_RANGE_PATTERN = /^\d{4}\s*[-–]\s*\d{4}$/;
+const URL_PATTERN = /\b((?:https?:\/\/|www\.)[^\s<>()"']+|(?:linkedin\.com|github\.com)\/[^\s<>()"']+)/gi;
+const YEARS_PATTERN = /(\d{1,2})\+?\s*(?:years?|yrs?)(?:\s+of)?\s+(?:professional\s+|work\s+|industry\s+)?experience/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function headingOf(line: string): SectionName | null {
+  const cleaned = line.replace(/[:\-–—_|•*#]+$/g, '').replace(/^[-–—_|•*#]+/g, '').trim();
+  if (cleaned.length > 40) return null;
+  for (const [section, pattern] of Object.entries(SECTION_HEADINGS) as [SectionName, RegExp][]) {
+    if (pattern.test(cleaned)) return section;
+  }
+  return null;
+}
+
+// Group lines under the last heading seen; text before the first heading is the header block
+function splitSections(text: string): { header: string[] } & Record<SectionName, string[]> {
+  const sections = { header: [] as string[], experience: [] as string[], education: [] as string[], skills: [] as string[] };
+  let current: keyof typeof sections = 'header';
+  for (const line of splitLines(text)) {
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      continue;
+    }
+    sections[current].push(line);
+  }
+  return sections;
+}
+
+// A name is one of the first few lines: 2-4 alphabetic words, no contact details or headings
+function guessName(headerLines: string[]): { name: string | null; index: number } {
+  const candidates = headerLines.slice(0, 8);
+  for (let i = 0; i < candidates.length; i++) {
+    const line = candidates[i];
+    if (EMAIL_PATTERN.test(line) || /\d/.test(line) || /https?:|www\./i.test(line)) continue;
+    if (/\b(resume|curriculum|vitae|cv|profile)\b/i.test(line)) continue;
+    const words = line.split(' ');
+    if (words.length < 2 || words.length > 4) continue;
+    if (!words.every((w) => /^[\p{L}][\p{L}'.-]*$/u.test(w))) continue;
+    const name = line === line.toUpperCase()
+      ? words.map((w) => w.charAt(0) + w.slice(1).toLowerCase()).join(' ')
+      : line;
+    return { name, index: i };
+  }
+  return { name: null, index: -1 };
+}
+
+function guessJobTitle(headerLines: string[], nameIndex: number): string | null {
+  const line = nameIndex >= 0 ? headerLines[nameIndex + 1] : undefined;
+  if (!line || line.length > 80) return null;
+  if (EMAIL_PATTERN.test(line) || PHONE_PATTERN.test(line) || /https?:|www\.|@/i.test(line)) return null;
+  return line;
+}
+
+function matchSkills(text: string): string[] {
+  return SKILLS_DICTIONARY.filter((skill) => {
+    const pattern = new RegExp(`(^|[^\\w+#.])${escapeRegExp(skill)}(?![\\w+#])`, skill.length <= 3 ? '' : 'i');
+    return pattern.test(text);
+  });
+}
+
+function summarize(lines: string[], maxLen: number): string | null {
+  const joined = lines.join(' ').trim();
+  if (!joined) return null;
+  return joined.length > maxLen ? `${joined.slice(0, maxLen - 3)}...` : joined;
+}
+
+export function extractProfileWithRules(text: string): RuleExtraction {
+  const sections = splitSections(text);
+  const { name, index: nameIndex } = guessName(sections.header);
+
+  // Prefer matches from a dedicated skills section, then fall back to the whole resume
+  const sectionSkills = matchSkills(sections.skills.join('\n'));
+  const skills = sectionSkills.length > 0 ? sectionSkills : matchSkills(text);
+
+  const years = text.match(YEARS_PATTERN);
+  // Skip year ranges such as 2018-2024 that look like phone numbers
+  const phone = (text.match(new RegExp(PHONE_PATTERN.source, 'g')) ?? [])
+    .map((match) => match.trim())
+    .find((match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15 && !DATE_RANGE_PATTERN.test(match);
+    }) ?? null;
+  const urls = Array.from(new Set((text.match(URL_PATTERN) ?? []).map((url) => url.replace(/[.,;]+$/, ''))));
+
+  return {
+    full_name: name,
+    email: text.match(EMAIL_PATTERN)?.[0] ?? null,
+    phone_number: phone,
+    job_title: guessJobTitle(sections.header, nameIndex),
+    years_of_experience: years ? parseInt(years[1], 10) : null,
+    skills: skills.slice(0, 10),
+    experience: summarize(sections.experience, 200),
+    education: summarize(sections.education, 150),
+    resume_text: text.trim() || null,
+    urls,
+  };
+}
@@ -0,0 +1,293 @@
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { extractText } from "https://esm.sh/unpdf@0.12.1";
+
+// Text extraction for every resume format we accept. Only images and scanned PDFs have
+// no text layer; those are returned as `vision` so callers send the raw file to the model.
+
+export type ResumeFormat = 'pdf' | 'docx' | 'doc' | 'rtf' | 'odt' | 'html' | 'txt' | 'image' | 'archive' | 'email' | 'json' | 'unknown';
+
+export type ExtractedContent =
+  | { kind: 'text'; format: ResumeFormat; text: string }
+  | { kind: 'vision'; format: ResumeFormat; mimeType: string }
+  | { kind: 'unsupported'; format: ResumeFormat; reason: string };
+
+// MIME types the vision model accepts as inline data
+const VISION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+const EXTENSION_FORMATS: Record<string, ResumeFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  doc: 'doc',
+  rtf: 'rtf',
+  odt: 'odt',
+  html: 'html',
+  htm: 'html',
+  txt: 'txt',
+  text: 'txt',
+  md: 'txt',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  webp: 'image',
+  heic: 'image',
+  heif: 'image',
+  zip: 'archive',
+  eml: 'email',
+  mbox: 'email',
+  json: 'json',
+};
+
+const FORMAT_MIME_TYPES: Partial<Record<ResumeFormat, string>> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword',
+  rtf: 'application/rtf',
+  odt: 'application/vnd.oasis.opendocument.text',
+  html: 'text/html',
+  txt: 'text/plain',
+  archive: 'application/zip',
+  email: 'message/rfc822',
+  json: 'application/json',
+};
+
+function extensionOf(fileName: string): string {
+  const match = fileName.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : '';
+}
+
+export function detectResumeFormat(fileName: string, mimeType: string): ResumeFormat {
+  const type = (mimeType || '').toLowerCase();
+  if (type === 'application/pdf') return 'pdf';
+  if (type.includes('wordprocessingml')) return 'docx';
+  if (type === 'application/msword') return 'doc';
+  if (type === 'application/rtf' || type === 'text/rtf') return 'rtf';
+  if (type === 'application/vnd.oasis.opendocument.text') return 'odt';
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/zip' || type === 'application/x-zip-compressed') return 'archive';
+  if (type === 'message/rfc822' || type === 'application/mbox') return 'email';
+  if (type === 'application/json') return 'json';
+  return EXTENSION_FORMATS[extensionOf(fileName)] ?? (type.startsWith('text/') ? 'txt' : 'unknown');
+}
+
+// For files without a MIME type of their own, such as entries unpacked from an archive
+export function guessMimeType(fileName: string): string | null {
+  const format = detectResumeFormat(fileName, '');
+  if (format === 'image') return VISION_MIME_TYPES[extensionOf(fileName)] ?? null;
+  return FORMAT_MIME_TYPES[format] ?? null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n') // Max 2 consecutive newlines
+    .trim();
+}
+
+// Extract text from DOCX files (which are ZIP files containing XML)
+export async function extractTextFromDocx(arrayBuffer: ArrayBuffer): Promise<string> {
+  try {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const documentXml = await zip.file('word/document.xml')?.async('text');
+
+    if (!documentXml) {
+      throw new Error('Could not find document.xml in DOCX file');
+    }
+
+    // Extract text from XML tags - simple approach
+    const text = documentXml
+      .replace(/<w:p[^>]*>/g, '\n') // Paragraphs
+      .replace(/<w:br[^>]*\/>/g, '\n') // Line breaks
+      .replace(/<w:tab[^>]*\/>/g, '\t') // Tabs
+      .replace(/<[^>]+>/g, ''); // Remove all XML tags
+
+    return tidy(decodeEntities(text));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to extract text from DOCX: ${errorMessage}`);
+  }
+}
+
+// ODT is a ZIP with the body in content.xml
+export async function extractTextFromOdt(arrayBuffer: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(arrayBuffer);
+  const contentXml = await zip.file('content.xml')?.async('text');
+  if (!contentXml) {
+    throw new Error('Could not find content.xml in ODT file');
+  }
+  const text = contentXml
+    .replace(/<text:(p|h)\b[^>]*>/g, '\n') // Paragraphs and headings
+    .replace(/<text:line-break[^>]*\/>/g, '\n')
+    .replace(/<text:tab[^>]*\/>/g, '\t')
+    .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_m, count) => ' '.repeat(count ? parseInt(count, 10) : 1))
+    .replace(/<[^>]+>/g, '');
+  return tidy(decodeEntities(text));
+}
+
+// Returns null for scanned or image-only PDFs, which only the vision model can read
+export async function extractTextFromPdf(arrayBuffer: ArrayBuffer): Promise<string | null> {
+  const { text } = await extractText(new Uint8Array(arrayBuffer), {
+    mergePages: true
+  });
+  return text && text.trim().length > 50 ? text : null;
+}
+
+export function extractTextFromHtml(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|li|tr|h[1-6]|section|article|header|footer|ul|ol|table)\b[^>]*>/gi, '\n')
+    .replace(/<(td|th)\b[^>]*>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+  return tidy(decodeEntities(text));
+}
+
+// Minimal RTF reader: keeps paragraph breaks, hex and unicode escapes, and drops
+// font tables, pictures and other ignorable destinations
+export function extractTextFromRtf(rtf: string): string {
+  let text = rtf
+    .replace(/\{\\\*[^{}]*(\{[^{}]*\}[^{}]*)*\}/g, '')
+    .replace(/\{\\(fonttbl|colortbl|stylesheet|info|pict)[^{}]*(\{[^{}]*\}[^{}]*)*\}/g, '');
+  text = text
+    .replace(/\\(par|line|row)\b ?/g, '\n')
+    .replace(/\\(tab|cell)\b ?/g, '\t')
+    .replace(/\\'([0-9a-f]{2})/gi, (_m, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\u(-?\d+)\??/g, (_m, code) => {
+      const n = parseInt(code, 10);
+      return String.fromCharCode(n < 0 ? n + 65536 : n);
+    })
+    .replace(/\\([{}\\])/g, '$1')
+    .replace(/\\[a-z]+-?\d* ?/gi, '')
+    .replace(/[{}]/g, '');
+  return tidy(text);
+}
+
+// Legacy Word (.doc) is an OLE compound file. Without a full parser we recover the text
+// runs, which Word stores either as 8-bit characters or as UTF-16LE, and keep whichever
+// encoding yields more readable text.
+export function extractTextFromDoc(arrayBuffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(arrayBuffer);
+  const printable = (c: number) => c === 9 || c === 10 || c === 13 || (c >= 32 && c < 127) || (c >= 160 && c <= 255);
+
+  const collect = (step: 1 | 2) => {
+    const runs: string[] = [];
+    let current = '';
+    for (let i = 0; i + step - 1 < bytes.length; i += step) {
+      const code = step === 2 ? bytes[i] | (bytes[i + 1] << 8) : bytes[i];
+      const ok = step === 2 ? (printable(code) || (code >= 0x100 && code < 0xd800)) : printable(code);
+      if (ok) {
+        current += code === 13 ? '\n' : String.fromCharCode(code);
+      } else {
+        if (current.trim().length >= 4) runs.push(current);
+        current = '';
+      }
+    }
+    if (current.trim().length >= 4) runs.push(current);
+    // Word's internal tables produce short noisy runs; real prose contains spaces
+    return runs.filter((run) => /[a-z]{2,}\s+[a-z]{2,}/i.test(run)).join('\n');
+  };
+
+  const utf16 = collect(2);
+  const ansi = collect(1);
+  return tidy(utf16.length > ansi.length ? utf16 : ansi);
+}
+
+function decodeText(arrayBuffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(arrayBuffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  return new TextDecoder().decode(bytes);
+}
+
+// Decide how a resume should be read: as text, as a file for the vision model, or not at all
+export async function extractResumeContent(arrayBuffer: ArrayBuffer, fileName: string, mimeType: string): Promise<ExtractedContent> {
+  const format = detectResumeFormat(fileName, mimeType);
+  try {
+    let text: string | null = null;
+    switch (format) {
+      case 'pdf':
+        text = await extractTextFromPdf(arrayBuffer);
+        if (!text) return { kind: 'vision', format, mimeType: 'application/pdf' };
+        break;
+      case 'archive':
+        return { kind: 'unsupported', format, reason: 'Archives must be unpacked before extraction' };
+      case 'email':
+        return { kind: 'unsupported', format, reason: 'Emails must be unpacked into their attachments before extraction' };
+      case 'image': {
+        const visionType = (mimeType && Object.values(VISION_MIME_TYPES).includes(mimeType))
+          ? mimeType
+          : VISION_MIME_TYPES[extensionOf(fileName)];
+        return visionType
+          ? { kind: 'vision', format, mimeType: visionType }
+          : { kind: 'unsupported', format, reason: `Image type ${mimeType || extensionOf(fileName)} is not supported` };
+      }
+      case 'docx':
+        text = await extractTextFromDocx(arrayBuffer);
+        break;
+      case 'odt':
+        text = await extractTextFromOdt(arrayBuffer);
+        break;
+      case 'doc':
+        text = extractTextFromDoc(arrayBuffer);
+        break;
+      case 'rtf':
+        text = extractTextFromRtf(decodeText(arrayBuffer));
+        break;
+      case 'html':
+        text = extractTextFromHtml(decodeText(arrayBuffer));
+        break;
+      case 'txt':
+      case 'json':
+        text = decodeText(arrayBuffer).trim();
+        break;
+      default: {
+        // Unknown extension: accept it only if it decodes as readable text
+        const decoded = decodeText(arrayBuffer);
+        const readable = decoded.replace(/[^\p{L}\p{N}\p{P}\s]/gu, '').length;
+        if (decoded.length > 0 && readable / decoded.length > 0.9) {
+          text = decoded.trim();
+        }
+      }
+    }
+
+    if (!text || text.length === 0) {
+      return { kind: 'unsupported', format, reason: `No readable text found in ${format.toUpperCase()} file` };
+    }
+    return { kind: 'text', format, text };
+  } catch (error) {
+    console.error(`[EXTRACT] Text extraction failed for ${fileName}:`, error);
+    // A PDF unpdf cannot open may still be readable by the vision model
+    if (format === 'pdf') return { kind: 'vision', format, mimeType: 'application/pdf' };
+    return {
+      kind: 'unsupported',
+      format,
+      reason: `Failed to extract text from ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+// Best-effort plain text for any supported resume file; null when there is no text layer
+export async function extractResumeText(arrayBuffer: ArrayBuffer, fileName: string, mimeType: string): Promise<string | null> {
+  const content = await extractResumeContent(arrayBuffer, fileName, mimeType);
+  return content.kind === 'text' ? content.text : null;
+}
@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLlmProviders, type LlmProvider } from "../_shared/llm.ts";
+import { saveProfileChunks } from "../_shared/chunks.ts";
+import { embedProfile, EMBEDDING_SOURCE_COLUMNS, embeddingModelId, isEmbeddingStale, type EmbeddingSource } from "../_shared/embedding.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Profiles are scanned in id order; each call stops well before the edge function
+// wall-clock limit and returns a cursor so the caller can continue where it left off.
+const PAGE_SIZE = 50;
+const TIME_BUDGET_MS = 100_000;
+
+type BackfillProfile = EmbeddingSource & {
+  id: string;
+  embedding_model: string | null;
+  embedding_source_hash: string | null;
+  chunks_model: string | null;
+};
+
+interface BackfillResult {
+  checked: number;
+  embedded: number;
+  // Section chunks written across all re-embedded profiles
+  chunks: number;
+  failed: number;
+  // Last profile ID looked at; null once the whole pool has been checked
+  cursor: string | null;
+  done: boolean;
+}
+
+async function runBackfill(
+  supabaseClient: SupabaseClient,
+  llmProviders: LlmProvider[],
+  userId: string | null,
+  startCursor: string | null
+): Promise<BackfillResult> {
+  const startedAt = Date.now();
+  const result: BackfillResult = { checked: 0, embedded: 0, chunks: 0, failed: 0, cursor: startCursor, done: false };
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    let query = supabaseClient
+      .from('profiles')
+      .select(`id, embedding_model, embedding_source_hash, chunks_model, ${EMBEDDING_SOURCE_COLUMNS}`)
+      .order('id')
+      .limit(PAGE_SIZE);
+    if (userId) query = query.eq('user_id', userId);
+    if (result.cursor) query = query.gt('id', result.cursor);
+
+    const { data: profiles, error } = await query;
+    if (error) throw new Error(`Failed to load profiles: ${error.message}`);
+    if (!profiles || profiles.length === 0) {
+      result.cursor = null;
+      result.done = true;
+      break;
+    }
+
+    // A changed profile needs new section chunks too; otherwise they are only rebuilt
+    // when the profile was never chunked or was chunked with another model
+    const stale: { profile: BackfillProfile; profileStale: boolean }[] = [];
+    const model = embeddingModelId(llmProviders[0]);
+    for (const profile of profiles as BackfillProfile[]) {
+      const profileStale = await isEmbeddingStale(llmProviders[0], profile);
+      const chunksStale = profile.chunks_model !== model;
+      if (profileStale || chunksStale) stale.push({ profile, profileStale });
+    }
+
+    // One profile per provider at a time
+    for (let i = 0; i < stale.length; i += llmProviders.length) {
+      await Promise.all(stale.slice(i, i + llmProviders.length).map(async ({ profile, profileStale }, index) => {
+        try {
+          if (profileStale) {
+            const embedding = await embedProfile(llmProviders[index], profile);
+            const { error: updateError } = await supabaseClient
+              .from('profiles')
+              .update(embedding)
+              .eq('id', profile.id);
+            if (updateError) throw updateError;
+          }
+          result.chunks += await saveProfileChunks(supabaseClient, llmProviders[index], profile.id);
+          result.embedded++;
+        } catch (embedError) {
+          console.error(`[BACKFILL] Failed to embed profile ${profile.id}:`, embedError);
+          result.failed++;
+        }
+      }));
+    }
+
+    result.checked += profiles.length;
+    result.cursor = profiles[profiles.length - 1].id;
+    if (profiles.length < PAGE_SIZE) {
+      result.cursor = null;
+      result.done = true;
+      break;
+    }
+  }
+
+  return result;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let cursor: string | null = null;
+  let requestedUserId: string | null = null;
+  try {
+    const body = await req.json();
+    cursor = body.cursor ?? null;
+    requestedUserId = body.userId ?? null;
+  } catch (_error) {
+    // An empty body starts from the beginning
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Users backfill their own pool. With the service role key, e.g. after switching
+    // EMBEDDING_MODEL, the whole table is re-embedded unless a userId is given.
+    let userId = requestedUserId;
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'User not authenticated' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      userId = user.id;
+    }
+
+    let llmProviders: LlmProvider[];
+    try {
+      llmProviders = createLlmProviders([
+        'GEMINI_API_KEY_1',
+        'GEMINI_API_KEY_2',
+        'GEMINI_API_KEY_3',
+        'GEMINI_API_KEY_4'
+      ]);
+    } catch (configError) {
+      const message = configError instanceof Error ? configError.message : String(configError);
+      console.error(`[INIT] ${message}`);
+      return new Response(
+        JSON.stringify({ error: message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`[BACKFILL] Checking ${userId ? `profiles of ${userId}` : 'all profiles'} against ${embeddingModelId(llmProviders[0])}${cursor ? ` from ${cursor}` : ''}`);
+    const result = await runBackfill(supabaseClient, llmProviders, userId, cursor);
+    console.log(`[BACKFILL] Checked ${result.checked}, embedded ${result.embedded} (${result.chunks} chunks), failed ${result.failed}${result.done ? ', done' : ''}`);
+
+    return new Response(
+      JSON.stringify({ success: true, model: embeddingModelId(llmProviders[0]), ...result }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error backfilling embeddings:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
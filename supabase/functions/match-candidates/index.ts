@@ -1,6 +1,48 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLlmProviders, LlmError, type LlmProvider } from "../_shared/llm.ts";
+import { embeddingModelId } from "../_shared/embedding.ts";
+import { describeCandidateFilters, parseCandidateFilters, type CandidateFilters } from "../_shared/filters.ts";
+import { jobRequirementsPrompt, jobSearchText, loadJob, type Job } from "../_shared/jobs.ts";
+import { recallCandidates, recallOptions, type RecallOptions } from "../_shared/recall.ts";
+import { redactPii } from "../_shared/redaction.ts";
+import {
+  normalizeRequirementResults,
+  parseRequirements,
+  requirementsPrompt,
+  requirementsScore,
+  type Requirement,
+  type RequirementResult,
+} from "../_shared/requirements.ts";
+
+interface MatchedPassage {
+  section: string;
+  content: string;
+  similarity: number;
+}
+
+// The resume text a strength or concern rests on, so the viewer can highlight it
+interface MatchEvidence {
+  kind: 'strength' | 'concern';
+  point: string;
+  quote: string;
+}
+
+const MAX_EVIDENCE_QUOTE_CHARS = 160;
+
+// Resume text sent to the model per candidate; a checklist needs more of the resume to
+// find evidence for every requirement
+const RESUME_SNIPPET_CHARS = 800;
+const CHECKLIST_RESUME_SNIPPET_CHARS = 2000;
+
+function toEvidence(points: string[], quotes: unknown, kind: MatchEvidence['kind']): MatchEvidence[] {
+  if (!Array.isArray(quotes)) return [];
+  return points.flatMap((point, index) => {
+    const quote = typeof quotes[index] === 'string' ? quotes[index].trim() : '';
+    return quote ? [{ kind, point, quote: quote.substring(0, MAX_EVIDENCE_QUOTE_CHARS) }] : [];
+  });
+}
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,9 +56,15 @@ serve(async (req) => {
 
   // Parse request body first
   let jobDescription: string;
+  let jobId: string | null;
+  let recall: RecallOptions;
+  let filters: CandidateFilters | null;
   try {
     const body = await req.json();
-    jobDescription = body.jobDescription;
+    jobDescription = body.jobDescription ?? '';
+    jobId = body.jobId ?? null;
+    recall = recallOptions(body);
+    filters = parseCandidateFilters(body.filters);
   } catch (error) {
     return new Response(
       JSON.stringify({ error: 'Invalid request body' }),
@@ -24,9 +72,10 @@ serve(async (req) => {
     );
   }
 
-  if (!jobDescription) {
+  // A job's own description is used when none is given
+  if (!jobDescription && !jobId) {
     return new Response(
-      JSON.stringify({ error: 'Job description is required' }),
+      JSON.stringify({ error: 'Job description or job is required' }),
       { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
@@ -49,24 +98,24 @@ serve(async (req) => {
           Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
         );
 
-        // Load all 4 API keys for parallel processing
-        const GEMINI_API_KEYS = [
-          Deno.env.get('GEMINI_API_KEY_1'),
-          Deno.env.get('GEMINI_API_KEY_2'),
-          Deno.env.get('GEMINI_API_KEY_3'),
-          Deno.env.get('GEMINI_API_KEY_4')
-        ];
-        
-        // Validate all keys are present
-        const missingKeys = GEMINI_API_KEYS.map((key, i) => key ? null : `GEMINI_API_KEY_${i + 1}`).filter(Boolean);
-        if (missingKeys.length > 0) {
-          console.error(`Missing API keys: ${missingKeys.join(', ')}`);
-          sendEvent('error', { message: `Missing API keys: ${missingKeys.join(', ')}` });
+        // Load one provider per API key for parallel processing
+        let llmProviders: LlmProvider[];
+        try {
+          llmProviders = createLlmProviders([
+            'GEMINI_API_KEY_1',
+            'GEMINI_API_KEY_2',
+            'GEMINI_API_KEY_3',
+            'GEMINI_API_KEY_4'
+          ]);
+        } catch (configError) {
+          const message = configError instanceof Error ? configError.message : String(configError);
+          console.error(message);
+          sendEvent('error', { message });
           controller.close();
           return;
         }
         
-        console.log(`[INIT] Loaded ${GEMINI_API_KEYS.length} API keys for parallel processing`);
+        console.log(`[INIT] Loaded ${llmProviders.length} ${llmProviders[0].name} provider(s) for parallel processing`);
 
         // Get authenticated user ID from the JWT
         const authHeader = req.headers.get('Authorization');
@@ -79,32 +128,78 @@ serve(async (req) => {
           return;
         }
 
-        // Fetch all user's profiles (skip vector search for now to ensure reliability)
-        sendEvent('log', { level: 'info', message: 'Fetching all your candidates...' });
-        
-        const { data: profiles, error: fetchError } = await supabaseClient
-          .from('profiles')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false });
-
-        if (fetchError) {
-          console.error('[FETCH] Error fetching profiles:', fetchError);
-          sendEvent('error', { message: `Failed to fetch profiles: ${fetchError.message}` });
-          controller.close();
-          return;
+        let job: Job | null = null;
+        if (jobId) {
+          job = await loadJob(supabaseClient, user.id, jobId);
+          if (!job) {
+            sendEvent('error', { message: 'Job not found' });
+            controller.close();
+            return;
+          }
+          jobDescription ||= job.description ?? '';
+          sendEvent('log', { level: 'info', message: `Matching against job: ${job.title}` });
+        }
+        const structuredRequirements = job ? jobRequirementsPrompt(job) : null;
+
+        // Stage 1: recall the closest candidates so only those are sent to the model. Hard
+        // filters exclude candidates in the same query.
+        if (filters) {
+          sendEvent('log', { level: 'info', message: `Applying filters: ${describeCandidateFilters(filters)}` });
+        }
+        sendEvent('log', { level: 'info', message: `Recalling up to ${recall.count} candidates closest to the job description...` });
+
+        const searchText = job ? jobSearchText(job, jobDescription) : jobDescription;
+        const recalled = await recallCandidates(supabaseClient, llmProviders[0], user.id, searchText, recall, filters);
+        const profiles = recalled.profiles;
+
+        if (filters) {
+          console.log(`[FILTERS] ${recalled.eligibleCount} of ${recalled.poolSize} profiles pass ${JSON.stringify(filters)}`);
+          sendEvent('log', { level: 'info', message: `${recalled.eligibleCount} of ${recalled.poolSize} candidates pass the filters` });
+        }
+
+        if (recalled.vectorError) {
+          sendEvent('log', { level: 'error', message: `Semantic search unavailable, using keyword search only: ${recalled.vectorError}` });
         }
 
-        if (!profiles || profiles.length === 0) {
-          console.log('[FETCH] No profiles found for user:', user.id);
-          sendEvent('log', { level: 'info', message: 'No candidates found in database' });
-          sendEvent('complete', { matches: [], message: 'No candidates found' });
+        if (profiles.length === 0) {
+          console.log(`[RECALL] No candidates recalled from ${recalled.poolSize} profiles for user ${user.id}`);
+          const message = recalled.poolSize === 0
+            ? 'No candidates found'
+            : recalled.eligibleCount === 0
+              ? 'No candidates pass the filters'
+              : 'No candidates are close enough to this job description';
+          sendEvent('log', { level: 'info', message: recalled.poolSize === 0 ? 'No candidates found in database' : message });
+          sendEvent('complete', { matches: [], total: recalled.poolSize, eligible: recalled.eligibleCount, recalled: 0, filters, message });
           controller.close();
           return;
         }
 
-        console.log(`[FETCH] Successfully fetched ${profiles.length} profiles for user ${user.id}`);
-        sendEvent('log', { level: 'success', message: `Found ${profiles.length} candidates in your database` });
+        console.log(`[RECALL] ${profiles.length} of ${recalled.poolSize} profiles, ${recalled.semanticMatches} by embedding and ${recalled.keywordMatches} by keywords (k=${recall.count}, threshold=${recall.threshold})`);
+        sendEvent('log', { level: 'success', message: `Shortlisted ${profiles.length} of ${recalled.eligibleCount} candidates (${recalled.semanticMatches} semantic, ${recalled.keywordMatches} keyword matches)` });
+
+        // Stage 2: parse the job description once into the checklist every candidate is judged against.
+        // Without one each candidate is scored as a whole, as before.
+        let checklist: Requirement[] = [];
+        sendEvent('log', { level: 'info', message: 'Breaking the job description down into requirements...' });
+        try {
+          checklist = await parseRequirements(llmProviders[0], jobDescription, structuredRequirements);
+          console.log(`[REQUIREMENTS] Parsed ${checklist.length} requirements`);
+          sendEvent('log', { level: 'success', message: `Checking candidates against ${checklist.length} requirements` });
+        } catch (requirementsError) {
+          const message = requirementsError instanceof Error ? requirementsError.message : String(requirementsError);
+          console.error('[REQUIREMENTS] Failed to parse requirements:', requirementsError);
+          sendEvent('log', { level: 'error', message: `Could not break down requirements, scoring candidates as a whole: ${message}` });
+        }
+
+        const hasChecklist = checklist.length > 0;
+        const snippetChars = hasChecklist ? CHECKLIST_RESUME_SNIPPET_CHARS : RESUME_SNIPPET_CHARS;
+        const checklistPrompt = hasChecklist ? `Requirements Checklist:\n${requirementsPrompt(checklist)}\n\n` : '';
+        const checklistFormat = hasChecklist
+          ? `, "requirements": [{"id": "R1", "status": "met", "evidence": "resume quote for R1"}, {"id": "R2", "status": "missing", "evidence": null}]`
+          : '';
+        const checklistRule = hasChecklist
+          ? `\n${structuredRequirements ? 10 : 9}. requirements: one entry per checklist requirement, by id. status is "met" when the resume clearly shows it, "partial" when it shows something related or less than asked, and "missing" otherwise. evidence is the short phrase (max 120 characters) copied word for word from the resume that shows it, or null when missing`
+          : '';
 
         sendEvent('log', { level: 'info', message: `Analyzing ${profiles.length} candidates with AI...` });
         sendEvent('progress', { current: 0, total: profiles.length });
@@ -134,85 +229,57 @@ serve(async (req) => {
           
           const batchPromises = parallelBatches.map(async (batch, batchIndexInGroup) => {
             const globalBatchIndex = groupStart + batchIndexInGroup;
-            const apiKeyIndex = batchIndexInGroup; // Use batchIndexInGroup to ensure each batch in parallel group gets unique key
-            const API_KEY = GEMINI_API_KEYS[apiKeyIndex];
+            const providerIndex = batchIndexInGroup % llmProviders.length; // Use batchIndexInGroup to ensure each batch in parallel group gets unique key
+            const llm = llmProviders[providerIndex];
             const batchNum = globalBatchIndex + 1;
             const totalBatches = batches.length;
             
-            console.log(`[BATCH ${batchNum}/${totalBatches}] Processing ${batch.length} candidates with GEMINI_API_KEY_${apiKeyIndex + 1}`);
-            sendEvent('log', { level: 'info', message: `Batch ${batchNum}/${totalBatches}: Analyzing ${batch.length} candidates with API KEY ${apiKeyIndex + 1}` });
+            console.log(`[BATCH ${batchNum}/${totalBatches}] Processing ${batch.length} candidates with ${llm.name} provider ${providerIndex + 1}`);
+            sendEvent('log', { level: 'info', message: `Batch ${batchNum}/${totalBatches}: Analyzing ${batch.length} candidates with API KEY ${providerIndex + 1}` });
             
             // Calculate global indices for this batch
             const startIndex = groupStart * BATCH_SIZE + batchIndexInGroup * BATCH_SIZE;
             
-            // Prepare candidate summaries with optimized snippets
+            // Prepare candidate summaries with optimized snippets. Identity is redacted so the
+            // model scores the work, not the name, contact details or location.
             const candidateSummaries = batch.map((profile, localIndex) => {
               const globalIndex = startIndex + localIndex;
-              const text = (profile.resume_text || '').toString();
-              const snippet = text.length > 800 ? text.slice(0, 800) + '...' : text;
+              const text = redactPii((profile.resume_text || '').toString(), profile);
+              const snippet = text.length > snippetChars ? text.slice(0, snippetChars) + '...' : text;
               return {
                 index: globalIndex,
                 resume: snippet
               };
             });
 
-            // Process batch with Gemini Flash
+            // Process batch with the configured LLM
             let batchRanked: any[] = [];
             const maxRetries = 2;
             
             for (let attempt = 0; attempt < maxRetries; attempt++) {
               try {
-                console.log(`[BATCH ${batchNum}] Calling Gemini API (attempt ${attempt + 1}/${maxRetries})...`);
+                console.log(`[BATCH ${batchNum}] Calling ${llm.name} API (attempt ${attempt + 1}/${maxRetries})...`);
                 
-                const response = await fetch(
-                  `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${API_KEY}`,
-                  {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                      contents: [{
-                        parts: [{
-                          text: `Job Description:\n${jobDescription}\n\nCandidates to analyze:\n${JSON.stringify(candidateSummaries)}\n\nFor each candidate, extract their information from their resume and evaluate their match against the job requirements.\n\nReturn ONLY valid JSON in this exact format:\n\n{"candidates": [{"candidateIndex": 0, "fullName": "Full Name from Resume", "email": "email@example.com", "phone": "+123456789", "location": "City, Country", "jobTitle": "Current Job Title", "yearsOfExperience": 5, "matchScore": 85, "reasoning": "Brief match explanation", "strengths": ["strength 1", "strength 2", "strength 3"], "concerns": ["concern 1", "concern 2"]}]}\n\nIMPORTANT RULES:\n1. Extract fullName, email, phone, location, jobTitle, yearsOfExperience from the resume text\n2. If a field is not found in resume, use null (not empty string)\n3. matchScore: 0-100 based on job fit\n4. reasoning: max 80 characters\n5. strengths and concerns: max 3 items each\n6. ALL ${batch.length} candidates MUST be included in response\n7. candidateIndex must match the index from input`
-                        }]
-                      }],
-                      generationConfig: {
-                        temperature: 0,
-                        maxOutputTokens: 8192,
-                        responseMimeType: "application/json"
-                      }
-                    })
-                  }
-                );
-
-                if (!response.ok) {
-                  const errorText = await response.text();
-                  console.error(`[BATCH ${batchNum}] API Error ${response.status}:`, errorText);
+                let jsonText: string;
+                try {
+                  jsonText = (await llm.generateJson({
+                    parts: [{
+                      text: `Job Description:\n${jobDescription}\n\n${structuredRequirements ? `Structured Requirements:\n${structuredRequirements}\n\n` : ''}${checklistPrompt}Candidates to analyze:\n${JSON.stringify(candidateSummaries)}\n\nFor each candidate, evaluate their match against the job requirements. Names, contact details and locations have been replaced with placeholders such as [NAME] and [EMAIL].\n\nReturn ONLY valid JSON in this exact format:\n\n{"candidates": [{"candidateIndex": 0, "jobTitle": "Current Job Title", "yearsOfExperience": 5, "matchScore": 85, "reasoning": "Brief match explanation", "strengths": ["strength 1", "strength 2", "strength 3"], "concerns": ["concern 1", "concern 2"], "strengthEvidence": ["resume quote for strength 1", "resume quote for strength 2", "resume quote for strength 3"], "concernEvidence": ["resume quote for concern 1", null]${checklistFormat}}]}\n\nIMPORTANT RULES:\n1. Extract jobTitle and yearsOfExperience from the resume text; refer to the person only as "the candidate" and never guess redacted details\n2. If a field is not found in resume, use null (not empty string)\n3. matchScore: 0-100 based on job fit\n4. reasoning: max 80 characters\n5. strengths and concerns: max 3 items each\n6. ALL ${batch.length} candidates MUST be included in response\n7. candidateIndex must match the index from input\n8. strengthEvidence and concernEvidence: one entry per strength and concern, in the same order, holding the short phrase (max 120 characters) copied word for word from the resume that it is based on, or null when it rests on something the resume does not say${structuredRequirements ? '\n9. Weigh the structured requirements: each missing must-have skill is a concern and lowers matchScore markedly, nice-to-have skills only add to it, and experience outside the required years is a concern' : ''}${checklistRule}`
+                    }],
+                    temperature: 0,
+                    maxOutputTokens: 8192
+                  })).trim();
+                } catch (llmError) {
+                  console.error(`[BATCH ${batchNum}] API Error:`, llmError);
                   
-                  if (response.status === 429) {
+                  if (llmError instanceof LlmError && llmError.status === 429) {
                     throw new Error('Rate limited - will retry');
                   }
-                  throw new Error(`API error: ${response.status} - ${errorText}`);
-                }
-
-                const result = await response.json();
-                
-                console.log(`[BATCH ${batchNum}] API Response structure:`, {
-                  hasCandidates: !!result.candidates,
-                  candidatesLength: result.candidates?.length,
-                  hasContent: !!result.candidates?.[0]?.content,
-                  hasParts: !!result.candidates?.[0]?.content?.parts,
-                  partsLength: result.candidates?.[0]?.content?.parts?.length
-                });
-                
-                if (!result.candidates?.[0]?.content?.parts?.[0]?.text) {
-                  if (result.candidates?.[0]?.finishReason === 'MAX_TOKENS') {
+                  if (llmError instanceof LlmError && llmError.finishReason === 'MAX_TOKENS') {
                     throw new Error('Response truncated - reducing batch size needed');
                   }
-                  console.error(`[BATCH ${batchNum}] Invalid response structure:`, JSON.stringify(result, null, 2));
-                  throw new Error('Invalid response structure from Gemini');
+                  throw llmError;
                 }
-
-                let jsonText = result.candidates[0].content.parts[0].text.trim();
                 
                 // Clean JSON response
                 jsonText = jsonText.replace(/^```json\n?/, '').replace(/\n?```$/, '').trim();
@@ -245,18 +312,27 @@ serve(async (req) => {
                   // Get original profile data for fallback
                   const originalProfile = batch[candidate.candidateIndex - startIndex];
                   
+                  const strengths = (candidate.strengths || []).slice(0, 3);
+                  const concerns = (candidate.concerns || []).slice(0, 3);
+                  // With a checklist the score follows from the requirements met, not the model's own number
+                  const requirementResults = hasChecklist ? normalizeRequirementResults(checklist, candidate.requirements) : [];
                   return {
                     candidateIndex: candidate.candidateIndex,
-                    fullName: candidate.fullName || originalProfile?.full_name || 'Unknown',
-                    email: candidate.email || originalProfile?.email || null,
-                    phone: candidate.phone || originalProfile?.phone_number || null,
-                    location: candidate.location || originalProfile?.location || null,
+                    fullName: originalProfile?.full_name || 'Unknown',
+                    email: originalProfile?.email || null,
+                    phone: originalProfile?.phone_number || null,
+                    location: originalProfile?.location || null,
                     jobTitle: candidate.jobTitle || originalProfile?.job_title || null,
                     yearsOfExperience: candidate.yearsOfExperience ?? originalProfile?.years_of_experience ?? null,
-                    matchScore: candidate.matchScore || 50,
+                    matchScore: hasChecklist ? requirementsScore(checklist, requirementResults) : candidate.matchScore || 50,
                     reasoning: candidate.reasoning || 'Analyzed',
-                    strengths: (candidate.strengths || []).slice(0, 3),
-                    concerns: (candidate.concerns || []).slice(0, 3)
+                    strengths,
+                    concerns,
+                    requirementResults,
+                    evidence: [
+                      ...toEvidence(strengths, candidate.strengthEvidence, 'strength'),
+                      ...toEvidence(concerns, candidate.concernEvidence, 'concern')
+                    ]
                   };
                 });
                 
@@ -283,7 +359,9 @@ serve(async (req) => {
                     matchScore: 0,
                     reasoning: 'Analysis failed - manual review needed',
                     strengths: [],
-                    concerns: ['Automated analysis unavailable']
+                    concerns: ['Automated analysis unavailable'],
+                    evidence: [],
+                    requirementResults: []
                   }));
                 } else {
                   const delay = Math.pow(2, attempt + 1) * 1000;
@@ -335,6 +413,8 @@ serve(async (req) => {
             reasoning: ranked.reasoning,
             strengths: ranked.strengths || [],
             concerns: ranked.concerns || [],
+            evidence: (ranked.evidence || []) as MatchEvidence[],
+            requirementResults: (ranked.requirementResults || []) as RequirementResult[],
             isFallback,
             shouldUpdate: !isFallback && ranked.fullName && ranked.fullName !== 'Not extracted'
           };
@@ -342,23 +422,12 @@ serve(async (req) => {
 
         sendEvent('log', { level: 'info', message: 'Updating candidate profiles...' });
 
-        // Bulk update profiles
+        // Bulk update profiles. Identity fields come from the profile itself, since the
+        // model only sees redacted resumes; only the role details it read are written back.
         const updatePromises = matches
           .filter(m => m.shouldUpdate)
           .map(m => {
             const updateData: any = {};
-            if (m.full_name && m.full_name !== profiles.find(p => p.id === m.id)?.full_name) {
-              updateData.full_name = m.full_name;
-            }
-            if (m.email && m.email !== profiles.find(p => p.id === m.id)?.email) {
-              updateData.email = m.email;
-            }
-            if (m.phone_number && m.phone_number !== profiles.find(p => p.id === m.id)?.phone_number) {
-              updateData.phone_number = m.phone_number;
-            }
-            if (m.location && m.location !== profiles.find(p => p.id === m.id)?.location) {
-              updateData.location = m.location;
-            }
             if (m.job_title && m.job_title !== profiles.find(p => p.id === m.id)?.job_title) {
               updateData.job_title = m.job_title;
             }
@@ -378,7 +447,34 @@ serve(async (req) => {
         
         await Promise.allSettled(updatePromises);
 
-        const validMatches = matches.filter(m => !m.isFallback);
+        const validMatches: (typeof matches[number] & { matchedPassages?: MatchedPassage[] })[] = matches.filter(m => !m.isFallback);
+
+        // Point each match at the resume sections closest to the job description
+        const queryEmbedding = recalled.queryEmbedding;
+        if (validMatches.length > 0 && queryEmbedding) {
+          try {
+            sendEvent('log', { level: 'info', message: 'Finding the best-matching resume sections...' });
+            const { data: passages, error: passageError } = await supabaseClient.rpc('match_profile_chunks', {
+              query_embedding: `[${queryEmbedding.join(',')}]`,
+              match_threshold: 0,
+              match_count: validMatches.length,
+              filter_user_id: user.id,
+              chunks_per_profile: 2,
+              filter_embedding_model: embeddingModelId(llmProviders[0]),
+              filter_profile_ids: validMatches.map(m => m.id)
+            });
+            if (passageError) throw passageError;
+
+            for (const match of validMatches) {
+              match.matchedPassages = ((passages || []) as (MatchedPassage & { profile_id: string })[])
+                .filter(passage => passage.profile_id === match.id)
+                .map(({ section, content, similarity }) => ({ section, content, similarity }));
+            }
+          } catch (passageError) {
+            // Passages only explain a match; the ranking stands without them
+            console.error('[PASSAGES] Failed to match resume sections:', passageError);
+          }
+        }
         const fallbackCount = matches.filter(m => m.isFallback).length;
         const successCount = validMatches.length;
         
@@ -387,7 +483,11 @@ serve(async (req) => {
 
         sendEvent('complete', { 
           matches: validMatches,
-          total: profiles.length,
+          requirements: checklist,
+          filters,
+          total: recalled.poolSize,
+          eligible: recalled.eligibleCount,
+          recalled: profiles.length,
           message: `Successfully matched ${successCount} candidates`
         });
 
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// One-off move of resumes from the shared 'resumes/' folder into '<user_id>/' folders.
+// Like the embedding backfill, each call stops before the wall-clock limit and returns
+// a cursor to continue from.
+const PAGE_SIZE = 100;
+const TIME_BUDGET_MS = 100_000;
+const LEGACY_PREFIX = 'resumes/';
+
+interface MigrationResult {
+  checked: number;
+  moved: number;
+  // Objects without an uploader or a single user whose rows point at them; left where they are
+  unowned: number;
+  failed: number;
+  cursor: string | null;
+  done: boolean;
+}
+
+async function moveObject(supabaseClient: SupabaseClient, oldPath: string, ownerId: string): Promise<void> {
+  const newPath = `${ownerId}/${oldPath.slice(LEGACY_PREFIX.length)}`;
+  const { error: moveError } = await supabaseClient.storage
+    .from('resumes')
+    .move(oldPath, newPath);
+  if (moveError) throw new Error(`Move failed: ${moveError.message}`);
+
+  const { error: rewriteError } = await supabaseClient.rpc('rewrite_resume_path', {
+    p_old_path: oldPath,
+    p_new_path: newPath,
+  });
+  if (rewriteError) {
+    // Put the file back so the references that still use the old name keep working
+    await supabaseClient.storage.from('resumes').move(newPath, oldPath);
+    throw new Error(`Failed to rewrite references: ${rewriteError.message}`);
+  }
+}
+
+async function runMigration(supabaseClient: SupabaseClient, startCursor: string | null): Promise<MigrationResult> {
+  const startedAt = Date.now();
+  const result: MigrationResult = { checked: 0, moved: 0, unowned: 0, failed: 0, cursor: startCursor, done: false };
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    // Moved objects leave the shared folder, so the cursor only skips the ones that stay
+    const { data: objects, error } = await supabaseClient.rpc('legacy_resume_objects', {
+      p_after: result.cursor,
+      p_limit: PAGE_SIZE,
+    });
+    if (error) throw new Error(`Failed to list resume objects: ${error.message}`);
+    if (!objects || objects.length === 0) {
+      result.cursor = null;
+      result.done = true;
+      break;
+    }
+
+    for (const object of objects) {
+      if (!object.owner_id) {
+        console.warn(`[STORAGE] No owner found for ${object.name}`);
+        result.unowned++;
+        continue;
+      }
+      try {
+        await moveObject(supabaseClient, object.name, object.owner_id);
+        result.moved++;
+      } catch (moveError) {
+        console.error(`[STORAGE] Failed to move ${object.name}:`, moveError);
+        result.failed++;
+      }
+    }
+
+    result.checked += objects.length;
+    result.cursor = objects[objects.length - 1].name;
+    if (objects.length < PAGE_SIZE) {
+      result.cursor = null;
+      result.done = true;
+      break;
+    }
+  }
+
+  return result;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let cursor: string | null = null;
+  try {
+    const body = await req.json();
+    cursor = body.cursor ?? null;
+  } catch (_error) {
+    // An empty body starts from the beginning
+  }
+
+  try {
+    // Moves files across users, so only the service role may run it
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return new Response(
+        JSON.stringify({ error: 'Service role key required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    console.log(`[STORAGE] Moving shared resume files into user folders${cursor ? ` from ${cursor}` : ''}`);
+    const result = await runMigration(supabaseClient, cursor);
+    console.log(`[STORAGE] Checked ${result.checked}, moved ${result.moved}, unowned ${result.unowned}, failed ${result.failed}${result.done ? ', done' : ''}`);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error migrating resume storage:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLlmProviders, type LlmPart, type LlmProvider } from "../_shared/llm.ts";
+import { saveProfileChunks } from "../_shared/chunks.ts";
+import { EDUCATION_PROMPT_FIELD, normalizeEducation, saveEducation } from "../_shared/education.ts";
+import { saveProfileEmbedding } from "../_shared/embedding.ts";
+import { LANGUAGE_PROMPT_FIELD, languagePromptInstructions, resolveLanguageFields } from "../_shared/language.ts";
+import { normalizePositions, POSITIONS_PROMPT_FIELD, savePositions } from "../_shared/positions.ts";
+import { missingRequiredFields, quarantineCandidate } from "../_shared/quarantine.ts";
+import { bytesToBase64, normalizeProfile, sha256Hex, userStoragePath } from "../_shared/resume.ts";
+import { extractProfileWithRules } from "../_shared/rule-extractor.ts";
+import { extractResumeContent, type ExtractedContent } from "../_shared/text-extraction.ts";
 
 // Global error handlers
 globalThis.addEventListener('error', (event) => {
@@ -45,19 +55,75 @@ async function retryWithBackoff<T>(
   throw lastError;
 }
 
-// Convert file to base64
-async function fileToBase64(file: File): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
-  
-  let base64 = '';
-  const chunkSize = 8192;
-  for (let i = 0; i < uint8Array.length; i += chunkSize) {
-    const chunk = uint8Array.slice(i, i + chunkSize);
-    base64 += String.fromCharCode(...chunk);
+// Every file gets a stable ID up front so candidates, storage objects and profiles
+// can be traced back to the exact file they came from
+interface BatchFile {
+  fileId: string;
+  file: File;
+}
+
+// A batch file after local extraction: text goes to the model as text, the rest as a file
+interface PreparedFile extends BatchFile {
+  bytes: ArrayBuffer;
+  content: ExtractedContent;
+}
+
+type ManifestError =
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'EXTRACTION_FAILED'
+  | 'NOT_EXTRACTED'
+  | 'MISSING_REQUIRED_FIELDS'
+  | 'DB_INSERT_FAILED';
+
+interface ManifestEntry {
+  fileId: string;
+  fileName: string;
+  profileId: string | null;
+  error: ManifestError | null;
+  needsAiEnrichment: boolean;
+  // The same file was imported before; profileId points at the existing profile
+  alreadyImported: boolean;
+  // Set when the extraction failed validation and was sent to the review queue
+  reviewId: string | null;
+}
+
+// Tie model output back to the batch's files. The echoed file_id wins; position is
+// only trusted when the model returned exactly one candidate per file.
+function assignCandidatesToFiles(candidates: any[], batch: BatchFile[]): { fileId: string; candidate: any }[] {
+  const batchIds = new Set(batch.map(f => f.fileId));
+  const claimed = new Set<string>();
+  const assigned: { fileId: string; candidate: any }[] = [];
+  const unmatched: any[] = [];
+
+  for (const candidate of candidates) {
+    const fileId = typeof candidate?.file_id === 'string' ? candidate.file_id.trim() : '';
+    if (batchIds.has(fileId) && !claimed.has(fileId)) {
+      claimed.add(fileId);
+      assigned.push({ fileId, candidate });
+    } else {
+      unmatched.push(candidate);
+    }
   }
-  
-  return btoa(base64);
+
+  if (unmatched.length > 0 && candidates.length === batch.length) {
+    const remaining = batch.filter(f => !claimed.has(f.fileId));
+    unmatched.forEach((candidate, index) => {
+      assigned.push({ fileId: remaining[index].fileId, candidate });
+    });
+  } else if (unmatched.length > 0) {
+    console.warn(`[MAPPING] Dropped ${unmatched.length} candidate(s) that could not be tied to a source file`);
+  }
+
+  return assigned;
+}
+
+// Used when the model fails or skips a file: keep whatever the rules can read so the
+// resume is not lost, and flag the profile for AI enrichment later
+function extractWithRules(files: PreparedFile[]): { fileId: string; candidate: any }[] {
+  return files.flatMap(({ fileId, content }) => content.kind === 'text'
+    ? [{ fileId, candidate: { ...extractProfileWithRules(content.text), needs_ai_enrichment: true } }]
+    : []);
 }
 
 serve(async (req) => {
@@ -84,25 +150,30 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Processing batch of ${files.length} resumes via direct PDF-to-Gemini...`);
+    console.log(`Processing batch of ${files.length} resumes (local text extraction, vision model for images and scanned PDFs)...`);
 
     // Validate files
-    const validFiles: any[] = [];
+    const validFiles: BatchFile[] = [];
+    const manifest: ManifestEntry[] = [];
     for (let i = 0; i < files.length; i++) {
       const file: any = files[i];
-      
+      const entry: ManifestEntry = { fileId: crypto.randomUUID(), fileName: file.name, profileId: null, error: null, needsAiEnrichment: false, alreadyImported: false, reviewId: null };
+      manifest.push(entry);
+
       if (file.size > 50 * 1024 * 1024) { // 50MB limit
         console.error(`[FILE ${i + 1}/${files.length}] ${file.name} - File too large (${file.size} bytes)`);
+        entry.error = 'FILE_TOO_LARGE';
         continue;
       }
-      
-      validFiles.push(file);
-      console.log(`[FILE ${i + 1}/${files.length}] ${file.name} - Valid (${file.size} bytes)`);
+
+      validFiles.push({ fileId: entry.fileId, file });
+      console.log(`[FILE ${i + 1}/${files.length}] ${file.name} - Valid (${file.size} bytes) as ${entry.fileId}`);
     }
+    const manifestById = new Map(manifest.map(entry => [entry.fileId, entry]));
 
     if (validFiles.length === 0) {
       return new Response(
-        JSON.stringify({ error: 'No valid files to process' }),
+        JSON.stringify({ error: 'No valid files to process', manifest }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -125,16 +196,61 @@ serve(async (req) => {
       );
     }
 
+    // Skip files already in the user's pool, and repeats of the same file within this request
+    const hashesById = new Map<string, string>();
+    for (const { fileId, file } of validFiles) {
+      hashesById.set(fileId, await sha256Hex(await file.arrayBuffer()));
+    }
+    const { data: existingProfiles } = await supabaseClient
+      .from('profiles')
+      .select('id, content_hash')
+      .eq('user_id', user.id)
+      .in('content_hash', Array.from(new Set(hashesById.values())));
+    const profileIdsByHash = new Map((existingProfiles ?? []).map((p: any) => [p.content_hash, p.id]));
+    const firstFileByHash = new Map<string, string>();
+    // Locally extracted text, kept as the original when the model translates a resume
+    const originalTextById = new Map<string, string>();
+    const repeatedFiles: { fileId: string; originalId: string }[] = [];
+
+    const newFiles = validFiles.filter(({ fileId, file }) => {
+      const hash = hashesById.get(fileId)!;
+      const entry = manifestById.get(fileId)!;
+      const existingId = profileIdsByHash.get(hash);
+      if (existingId) {
+        console.log(`[DEDUP] ${file.name} already imported as profile ${existingId}`);
+        entry.profileId = existingId;
+        entry.alreadyImported = true;
+        return false;
+      }
+      const originalId = firstFileByHash.get(hash);
+      if (originalId) {
+        repeatedFiles.push({ fileId, originalId });
+        entry.alreadyImported = true;
+        return false;
+      }
+      firstFileByHash.set(hash, fileId);
+      return true;
+    });
+
+    if (newFiles.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'All resumes were already imported',
+          processed: 0,
+          failed: 0,
+          rejected: 0,
+          alreadyImported: manifest.filter(m => m.alreadyImported).length,
+          failedFiles: [],
+          manifest
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Upload files to storage in parallel (background task)
-    const fileUploadPromises = validFiles.map(async (file: any, index: number) => {
-      const sanitizedFileName = file.name
-        .normalize('NFD')
-        .replace(/[\u0300-\u036f]/g, '')
-        .replace(/[^\x00-\x7F]/g, '_')
-        .replace(/[^a-zA-Z0-9._-]/g, '_')
-        .replace(/_+/g, '_');
-      
-      const storagePath = `resumes/${Date.now()}_${index}_${sanitizedFileName}`;
+    const fileUploadPromises = newFiles.map(async ({ fileId, file }, index: number) => {
+      const storagePath = userStoragePath(user.id, file.name, index);
       
       const { data, error } = await supabaseClient.storage
         .from('resumes')
@@ -148,48 +264,40 @@ serve(async (req) => {
         return null;
       }
 
-      const { data: { publicUrl } } = supabaseClient.storage
-        .from('resumes')
-        .getPublicUrl(data.path);
-
-      return { fileName: file.name, fileUrl: publicUrl };
+      // The bucket is private: store the object path and sign it when the file is viewed
+      return { fileId, fileUrl: data.path };
     });
 
-    // Load exactly 4 API keys for true parallel processing
-    const GEMINI_API_KEYS = [
-      Deno.env.get('GEMINI_API_KEY_1'),
-      Deno.env.get('GEMINI_API_KEY_2'),
-      Deno.env.get('GEMINI_API_KEY_3'),
-      Deno.env.get('GEMINI_API_KEY_4')
-    ];
-    
-    // Validate all 4 keys are present
-    const missingKeys = GEMINI_API_KEYS.map((key, i) => {
-      if (!key) return `GEMINI_API_KEY_${i + 1}`;
-      return null;
-    }).filter(Boolean);
-    
-    if (missingKeys.length > 0) {
-      console.error(`Missing API keys: ${missingKeys.join(', ')}`);
+    // Load one provider per API key for true parallel processing
+    let llmProviders: LlmProvider[];
+    try {
+      llmProviders = createLlmProviders([
+        'GEMINI_API_KEY_1',
+        'GEMINI_API_KEY_2',
+        'GEMINI_API_KEY_3',
+        'GEMINI_API_KEY_4'
+      ]);
+    } catch (configError) {
+      const message = configError instanceof Error ? configError.message : String(configError);
+      console.error(`[INIT] ${message}`);
       return new Response(
-        JSON.stringify({ error: `Missing API keys: ${missingKeys.join(', ')}` }),
+        JSON.stringify({ error: message }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
     
-    console.log(`[INIT] Loaded ${GEMINI_API_KEYS.length} API keys for parallel processing`);
+    console.log(`[INIT] Loaded ${llmProviders.length} ${llmProviders[0].name} provider(s) for parallel processing`);
 
-    let allCandidates: any[] = [];
-    const batchFailedFiles: string[] = [];
+    const allCandidates: { fileId: string; candidate: any }[] = [];
     
     // PARALLEL PROCESSING: 4 batches of 2 resumes each
     const BATCH_SIZE = 2;
     const PARALLEL_BATCHES = 4;
     
     // Split into batches of 2
-    const batches: any[][] = [];
-    for (let i = 0; i < validFiles.length; i += BATCH_SIZE) {
-      batches.push(validFiles.slice(i, i + BATCH_SIZE));
+    const batches: BatchFile[][] = [];
+    for (let i = 0; i < newFiles.length; i += BATCH_SIZE) {
+      batches.push(newFiles.slice(i, i + BATCH_SIZE));
     }
     
     console.log(`[PROCESSING] Created ${batches.length} batches of up to ${BATCH_SIZE} resumes each`);
@@ -200,35 +308,49 @@ serve(async (req) => {
       console.log(`[PROCESSING] Starting parallel batch group ${Math.floor(i / PARALLEL_BATCHES) + 1}: ${parallelBatches.length} batches in parallel`);
       
       const batchPromises = parallelBatches.map(async (batch, batchIndex) => {
-        // Use global batch index to ensure each batch gets a unique API key
+        // Use global batch index to ensure each batch gets a unique provider
         const globalBatchIndex = i + batchIndex;
-        const apiKeyIndex = globalBatchIndex % GEMINI_API_KEYS.length;
-        const API_KEY = GEMINI_API_KEYS[apiKeyIndex];
-        const keyName = `GEMINI_API_KEY_${apiKeyIndex + 1}`;
+        const providerIndex = globalBatchIndex % llmProviders.length;
+        const llm = llmProviders[providerIndex];
+        const keyName = `${llm.name} provider ${providerIndex + 1}`;
+        let prepared: PreparedFile[] = [];
+        const fallBackToRules = (files: PreparedFile[], error: ManifestError) => {
+          const recovered = extractWithRules(files);
+          const recoveredIds = new Set(recovered.map(r => r.fileId));
+          files.forEach(f => {
+            if (!recoveredIds.has(f.fileId)) manifestById.get(f.fileId)!.error = error;
+          });
+          console.log(`[BATCH ${globalBatchIndex + 1}] Rule-based fallback recovered ${recovered.length}/${files.length} file(s)`);
+          return recovered;
+        };
         
         try {
           console.log(`[BATCH ${globalBatchIndex + 1}] Processing ${batch.length} resume(s) with ${keyName}`);
-          console.log(`[BATCH ${globalBatchIndex + 1}] Files:`, batch.map((f: any) => f.name).join(', '));
+          console.log(`[BATCH ${globalBatchIndex + 1}] Files:`, batch.map(f => f.file.name).join(', '));
           
-          // Convert files to base64 for Vision API
-          const fileDataPromises = batch.map(async (file: any) => {
-            const base64 = await fileToBase64(file);
-            return {
-              fileName: file.name,
-              mimeType: file.type || 'application/pdf',
-              data: base64
-            };
-          });
+          // Extract text locally; only images and scanned PDFs are sent to the model as files
+          const extracted = await Promise.all(batch.map(async (f) => {
+            const bytes = await f.file.arrayBuffer();
+            return { ...f, bytes, content: await extractResumeContent(bytes, f.file.name, f.file.type || '') };
+          }));
           
-          const filesData = await Promise.all(fileDataPromises);
+          extracted.forEach(f => {
+            if (f.content.kind === 'text') originalTextById.set(f.fileId, f.content.text);
+            if (f.content.kind === 'unsupported') {
+              console.warn(`[BATCH ${globalBatchIndex + 1}] ⚠ ${f.file.name}: ${f.content.reason}`);
+              manifestById.get(f.fileId)!.error = 'UNSUPPORTED_FORMAT';
+            }
+          });
+          prepared = extracted.filter(f => f.content.kind !== 'unsupported');
+          if (prepared.length === 0) return [];
           
           const parseResumes = async () => {
-            console.log(`[BATCH ${globalBatchIndex + 1}] Calling Gemini Vision API...`);
+            console.log(`[BATCH ${globalBatchIndex + 1}] Calling ${llm.name} model...`);
             
             // Build parts array with inline data for each file
-            const parts: any[] = [
+            const parts: LlmPart[] = [
               {
-                text: `Extract data from ${batch.length} resume file(s). Return ONLY valid JSON.
+                text: `Extract data from ${prepared.length} resume(s). Each resume is given either as extracted text or as a file. Return ONLY valid JSON.
 
 EXTRACT:
 - full_name (MUST be person's real name from resume, NOT filename)
@@ -238,64 +360,47 @@ EXTRACT:
 - skills (array, max 10)
 - experience (max 200 chars)
 - education (max 150 chars)
+${POSITIONS_PROMPT_FIELD}
+${EDUCATION_PROMPT_FIELD}
 - resume_text (FULL raw text content from resume for AI matching)
+${LANGUAGE_PROMPT_FIELD}
+- file_id (copy EXACTLY from the "FILE_ID:" line that precedes the resume)
+
+${languagePromptInstructions()}
 
-CRITICAL: All ${batch.length} resume(s) MUST be included in output.
+CRITICAL: All ${prepared.length} resume(s) MUST be included in output, one candidate per resume.
 Output format: {"candidates": [...]}`
               }
             ];
             
-            // Add each file as inline data
-            filesData.forEach((fileData) => {
-              parts.push({
-                inlineData: {
-                  mimeType: fileData.mimeType,
-                  data: fileData.data
-                }
-              });
-            });
-            
-            const response = await fetch(
-              `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${API_KEY}`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  contents: [{ parts }],
-                  generationConfig: {
-                    temperature: 0,
-                    maxOutputTokens: 8192,
-                    responseMimeType: "application/json"
+            // Add each resume labelled with its ID so candidates can be mapped back
+            prepared.forEach(({ fileId, bytes, content }) => {
+              if (content.kind === 'text') {
+                parts.push({ text: `FILE_ID: ${fileId}\n--- RESUME TEXT ---\n${content.text}` });
+              } else if (content.kind === 'vision') {
+                parts.push({ text: `FILE_ID: ${fileId}` });
+                parts.push({
+                  inlineData: {
+                    mimeType: content.mimeType,
+                    data: bytesToBase64(new Uint8Array(bytes))
                   }
-                })
+                });
               }
-            );
-
-            if (!response.ok) {
-              const errorText = await response.text();
-              console.error(`[BATCH ${globalBatchIndex + 1}] API Error ${response.status}:`, errorText);
-              throw new Error(`Batch failed: ${response.status} - ${errorText}`);
-            }
-
-            const result = await response.json();
-            console.log(`[BATCH ${globalBatchIndex + 1}] API Response structure:`, {
-              hasCandidates: !!result.candidates,
-              candidatesLength: result.candidates?.length,
-              hasContent: !!result.candidates?.[0]?.content,
-              hasParts: !!result.candidates?.[0]?.content?.parts,
-              partsLength: result.candidates?.[0]?.content?.parts?.length
             });
             
-            return result;
+            try {
+              return await llm.generateJson({ parts, temperature: 0, maxOutputTokens: 8192 });
+            } catch (error) {
+              console.error(`[BATCH ${globalBatchIndex + 1}] API Error:`, error);
+              throw new Error(`Batch failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
           };
 
-          const result = await retryWithBackoff(parseResumes, 3, 2000);
-          const rawText = result.candidates?.[0]?.content?.parts?.[0]?.text || '';
+          const rawText = await retryWithBackoff(parseResumes, 3, 2000);
           
           if (!rawText) {
             console.error(`[BATCH ${globalBatchIndex + 1}] ⚠ No raw text in API response`);
-            batch.forEach((f: any) => batchFailedFiles.push(f.name));
-            return [];
+            return fallBackToRules(prepared, 'EXTRACTION_FAILED');
           }
           
           try {
@@ -303,32 +408,37 @@ Output format: {"candidates": [...]}`
             if (parsedData.candidates && Array.isArray(parsedData.candidates)) {
               if (parsedData.candidates.length === 0) {
                 console.error(`[BATCH ${globalBatchIndex + 1}] ⚠ API returned empty candidates array`);
-                batch.forEach((f: any) => batchFailedFiles.push(f.name));
-                return [];
+                return fallBackToRules(prepared, 'EXTRACTION_FAILED');
               }
               
               console.log(`[BATCH ${globalBatchIndex + 1}] ✓ Successfully parsed ${parsedData.candidates.length} candidates`);
               
-              if (parsedData.candidates.length < batch.length) {
-                console.warn(`[BATCH ${globalBatchIndex + 1}] ⚠ Expected ${batch.length} candidates but got ${parsedData.candidates.length}`);
+              if (parsedData.candidates.length < prepared.length) {
+                console.warn(`[BATCH ${globalBatchIndex + 1}] ⚠ Expected ${prepared.length} candidates but got ${parsedData.candidates.length}`);
               }
               
-              return parsedData.candidates;
+              const assigned = assignCandidatesToFiles(parsedData.candidates, prepared);
+              const assignedIds = new Set(assigned.map(a => a.fileId));
+              const missing = prepared.filter(f => !assignedIds.has(f.fileId));
+              missing.forEach(f => console.warn(`[BATCH ${globalBatchIndex + 1}] ⚠ No candidate extracted for ${f.file.name}`));
+              
+              return missing.length > 0 ? [...assigned, ...fallBackToRules(missing, 'NOT_EXTRACTED')] : assigned;
             } else {
               console.error(`[BATCH ${globalBatchIndex + 1}] ⚠ Parsed data missing candidates array`);
-              batch.forEach((f: any) => batchFailedFiles.push(f.name));
-              return [];
+              return fallBackToRules(prepared, 'EXTRACTION_FAILED');
             }
           } catch (parseError) {
             console.error(`[BATCH ${globalBatchIndex + 1}] ✗ JSON parse error:`, parseError);
             console.error(`[BATCH ${globalBatchIndex + 1}] Raw text (first 500 chars):`, rawText.substring(0, 500));
-            batch.forEach((f: any) => batchFailedFiles.push(f.name));
-            return [];
+            return fallBackToRules(prepared, 'EXTRACTION_FAILED');
           }
         } catch (error) {
           console.error(`[BATCH ${globalBatchIndex + 1}] ✗ Exception during batch processing:`, error);
-          batch.forEach((f: any) => batchFailedFiles.push(f.name));
-          return [];
+          if (prepared.length === 0) {
+            batch.forEach(f => { manifestById.get(f.fileId)!.error ??= 'EXTRACTION_FAILED'; });
+            return [];
+          }
+          return fallBackToRules(prepared, 'EXTRACTION_FAILED');
         }
       });
       
@@ -344,101 +454,55 @@ Output format: {"candidates": [...]}`
 
     // Wait for file uploads to complete
     const uploadedFiles = await Promise.all(fileUploadPromises);
+    const fileUrlsById = new Map<string, string>();
+    uploadedFiles.forEach(upload => {
+      if (upload) fileUrlsById.set(upload.fileId, upload.fileUrl);
+    });
 
     // Check if we have any candidates
     if (allCandidates.length === 0) {
-      const allFailedFiles = [...new Set(batchFailedFiles)];
       return new Response(
         JSON.stringify({
           error: 'Failed to parse any resumes',
-          details: `Tried to process ${validFiles.length} files`,
-          failedFiles: allFailedFiles,
-          hint: 'Gemini Vision API may have failed to extract data. Check Edge Function logs for detailed errors.'
+          details: `Tried to process ${newFiles.length} files`,
+          failedFiles: manifest.filter(m => m.error).map(m => m.fileName),
+          manifest,
+          hint: 'The AI model may have failed to extract data. Check Edge Function logs for detailed errors.'
         }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`[EMBEDDINGS] Starting background embedding generation...`);
-
-    // Generate embeddings in background
-    const embeddingPromises = allCandidates.map(async (candidate, idx) => {
-      try {
-        // Rotate API keys for embedding generation
-        const apiKeyIndex = idx % GEMINI_API_KEYS.length;
-        const API_KEY = GEMINI_API_KEYS[apiKeyIndex];
-        const keyName = `GEMINI_API_KEY_${apiKeyIndex + 1}`;
-        
-        console.log(`[EMBEDDINGS] Generating for ${candidate.full_name} with ${keyName}`);
-        
-        const embeddingText = `
-          Name: ${candidate.full_name}
-          Job Title: ${candidate.job_title || 'N/A'}
-          Sector: ${candidate.sector || 'N/A'}
-          Skills: ${candidate.skills?.join(', ') || 'N/A'}
-          Experience: ${candidate.experience || 'N/A'}
-          Education: ${candidate.education || 'N/A'}
-        `.trim();
-
-        const embeddingResponse = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${API_KEY}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'models/text-embedding-004',
-              content: { parts: [{ text: embeddingText }] }
-            })
-          }
-        );
-
-        if (!embeddingResponse.ok) {
-          console.error(`[EMBEDDINGS] Failed for ${candidate.full_name}:`, await embeddingResponse.text());
-          return null;
-        }
-
-        const embeddingData = await embeddingResponse.json();
-        const embedding = embeddingData.embedding?.values;
-        
-        if (embedding) {
-          console.log(`✓ Background embedding for ${candidate.full_name}`);
-          return { candidate, embedding };
-        }
-        return null;
-      } catch (error) {
-        console.error(`[EMBEDDINGS] Error for ${candidate.full_name}:`, error);
-        return null;
-      }
-    });
-
-    const embeddingResults = await Promise.all(embeddingPromises);
-    console.log('✓ Background embedding generation complete');
-
     // Validate and insert candidates
-    const validCandidates = embeddingResults.filter(result => {
-      if (!result) return false;
-      const { candidate } = result;
+    const rejectedCandidates: { fileId: string; candidate: Record<string, unknown>; missingFields: string[] }[] = [];
+    const validCandidates = allCandidates.filter(result => {
+      const { fileId, candidate } = result;
+      
+      // Rule-based profiles are partial by design and only need something to identify them
+      if (candidate.needs_ai_enrichment) {
+        const identifiable = Boolean(candidate.full_name || candidate.email || candidate.resume_text);
+        if (!identifiable) manifestById.get(fileId)!.error = 'MISSING_REQUIRED_FIELDS';
+        return identifiable;
+      }
       
-      const hasRequiredFields = 
-        candidate.full_name && 
-        candidate.email && 
-        candidate.job_title && 
-        candidate.sector && 
-        Array.isArray(candidate.skills) && 
-        candidate.skills.length > 0;
+      const missingFields = missingRequiredFields(candidate);
       
-      if (!hasRequiredFields) {
-        console.warn(`[VALIDATION] Rejected candidate: ${candidate.full_name || 'UNKNOWN'} - Missing required fields`);
+      if (missingFields.length > 0) {
+        console.warn(`[VALIDATION] Rejected candidate: ${candidate.full_name || 'UNKNOWN'} - Missing ${missingFields.join(', ')}`);
+        manifestById.get(fileId)!.error = 'MISSING_REQUIRED_FIELDS';
+        rejectedCandidates.push({ fileId, candidate, missingFields });
       }
       
-      return hasRequiredFields;
+      return missingFields.length === 0;
     });
 
-    const insertPromises = validCandidates.map(async (result) => {
-      const { candidate, embedding } = result!;
-      const matchingUpload = uploadedFiles.find(u => u?.fileName === candidate.full_name);
+    const insertPromises = validCandidates.map(async (result, idx) => {
+      const { fileId, candidate } = result;
+      // Rotate providers for embedding generation
+      const llm = llmProviders[idx % llmProviders.length];
+      const entry = manifestById.get(fileId)!;
       
-      const { error: insertError } = await supabaseClient
+      const { data: inserted, error: insertError } = await supabaseClient
         .from('profiles')
         .insert({
           full_name: candidate.full_name,
@@ -452,27 +516,71 @@ Output format: {"candidates": [...]}`
           experience: candidate.experience || null,
           education: candidate.education || null,
           resume_text: candidate.resume_text || null,
-          resume_file_url: matchingUpload?.fileUrl || null,
+          resume_file_url: fileUrlsById.get(fileId) || null,
+          content_hash: hashesById.get(fileId),
+          ...resolveLanguageFields(candidate.resume_language, originalTextById.get(fileId), !candidate.needs_ai_enrichment),
           user_id: user.id,
-          embedding: `[${embedding.join(',')}]`
-        });
+          needs_ai_enrichment: Boolean(candidate.needs_ai_enrichment)
+        })
+        .select('id')
+        .single();
 
       if (insertError) {
-        console.error(`Failed to insert ${candidate.full_name}:`, insertError);
-        return { success: false, candidate: candidate.full_name };
+        console.error(`Failed to insert ${candidate.full_name} (${entry.fileName}):`, insertError);
+        entry.error = 'DB_INSERT_FAILED';
+        return { success: false, fileName: entry.fileName };
       }
       
-      return { success: true, candidate: candidate.full_name };
+      entry.profileId = inserted.id;
+      try {
+        await saveProfileEmbedding(supabaseClient, llm, inserted.id);
+      } catch (error) {
+        // Saved without a vector; backfill-embeddings picks the profile up later
+        console.error(`[EMBEDDINGS] Error for ${candidate.full_name}, saved without embedding:`, error);
+      }
+      await savePositions(supabaseClient, inserted.id, user.id, normalizePositions(candidate.positions));
+      await saveEducation(supabaseClient, inserted.id, user.id, normalizeEducation(candidate.education_history));
+      await saveProfileChunks(supabaseClient, llm, inserted.id);
+      entry.needsAiEnrichment = Boolean(candidate.needs_ai_enrichment);
+      return { success: true, fileName: entry.fileName };
     });
 
     const insertResults = await Promise.all(insertPromises);
+
+    // Rejected extractions go to the review queue with their file instead of being dropped
+    await Promise.all(rejectedCandidates.map(async ({ fileId, candidate, missingFields }) => {
+      const entry = manifestById.get(fileId)!;
+      const fileUrl = fileUrlsById.get(fileId) || null;
+      entry.reviewId = await quarantineCandidate(supabaseClient, {
+        userId: user.id,
+        fileName: entry.fileName,
+        resumeFileUrl: fileUrl,
+        contentHash: hashesById.get(fileId) || null,
+        candidate: {
+          ...normalizeProfile(candidate, null, fileUrl),
+          ...resolveLanguageFields(candidate.resume_language, originalTextById.get(fileId), !candidate.needs_ai_enrichment),
+          positions: normalizePositions(candidate.positions),
+          education_history: normalizeEducation(candidate.education_history)
+        },
+        missingFields
+      });
+    }));
+    const needsReview = manifest.filter(m => m.reviewId).length;
+
     const successful = insertResults.filter(r => r.success).length;
     const failed = insertResults.filter(r => !r.success);
     const rejected = allCandidates.length - validCandidates.length;
 
-    console.log(`✓ Successfully processed ${successful}/${validFiles.length} resumes`);
+    // Repeats within this request share the profile created for the first copy
+    repeatedFiles.forEach(({ fileId, originalId }) => {
+      manifestById.get(fileId)!.profileId = manifestById.get(originalId)!.profileId;
+    });
+    const alreadyImported = manifest.filter(m => m.alreadyImported).length;
+
+    console.log(`✓ Successfully processed ${successful}/${newFiles.length} resumes`);
+    console.log(`  - Already imported: ${alreadyImported}`);
     console.log(`  - Failed: ${failed.length} (extraction/parsing errors)`);
-    console.log(`  - Rejected: ${rejected} (invalid data)`);
+    console.log(`  - Rejected: ${rejected} (invalid data, ${needsReview} sent to review)`);
 
     return new Response(
       JSON.stringify({
@@ -481,7 +589,10 @@ Output format: {"candidates": [...]}`
         processed: successful,
         failed: failed.length,
         rejected,
-        failedFiles: failed.map(f => ({ fileName: f.candidate, error: 'Database insertion failed' }))
+        needsReview,
+        alreadyImported,
+        failedFiles: failed.map(f => ({ fileName: f.fileName, error: 'Database insertion failed' })),
+        manifest
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,627 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { createLlmProviders, type LlmProvider } from "../_shared/llm.ts";
+import { bytesToBase64, normalizeProfile, safeJsonParse, sha256Hex, userStoragePath } from "../_shared/resume.ts";
+import { saveProfileChunks } from "../_shared/chunks.ts";
+import { EDUCATION_PROMPT_FIELD, normalizeEducation, saveEducation } from "../_shared/education.ts";
+import { parseMailFile } from "../_shared/email.ts";
+import { saveProfileEmbedding } from "../_shared/embedding.ts";
+import { readJsonResume } from "../_shared/json-resume.ts";
+import { LANGUAGE_PROMPT_FIELD, languagePromptInstructions, resolveLanguageFields } from "../_shared/language.ts";
+import { normalizePositions, POSITIONS_PROMPT_FIELD, savePositions } from "../_shared/positions.ts";
+import { missingRequiredFields, quarantineCandidate } from "../_shared/quarantine.ts";
+import { extractProfileWithRules } from "../_shared/rule-extractor.ts";
+import { detectResumeFormat, extractResumeContent, guessMimeType } from "../_shared/text-extraction.ts";
+
+// Provided by the Supabase edge runtime: keeps the isolate alive for background work
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// One item per provider in parallel; stop well before the edge function wall-clock limit
+// and hand the rest of the job to a fresh invocation.
+const PARALLEL_ITEMS = 4;
+const TIME_BUDGET_MS = 100_000;
+// A hung model request must not use up the whole budget
+const LLM_TIMEOUT_MS = 45_000;
+// Items left 'processing' by an invocation that died are reclaimed once their lock expires
+const STALLED_POLL_MS = 5_000;
+// Guards against archive bombs; larger archives should be split by the client
+const MAX_ARCHIVE_ENTRIES = 2000;
+// Only resumes are taken from emails; logos, signatures and invites are left behind
+const EMAIL_ATTACHMENT_FORMATS = new Set(['pdf', 'docx']);
+const MAX_COVER_LETTER_CHARS = 10_000;
+
+interface IngestionItem {
+  id: string;
+  job_id: string;
+  user_id: string;
+  file_name: string;
+  storage_path: string;
+  mime_type: string | null;
+  attempts: number;
+  max_attempts: number;
+  parent_item_id: string | null;
+  source: string | null;
+  content_hash: string | null;
+  // Set on attachments unpacked from an email
+  sender_email: string | null;
+  cover_letter: string | null;
+}
+
+// A file unpacked from an archive or email, before it is stored and queued
+interface ChildItem {
+  job_id: string;
+  user_id: string;
+  parent_item_id: string;
+  source: string;
+  file_name: string;
+  mime_type: string | null;
+  sender_email?: string | null;
+  cover_letter?: string | null;
+}
+
+interface ItemResult {
+  profileId: string;
+  // The same file was already imported; profileId points at the existing profile
+  duplicate: boolean;
+}
+
+// Failures that will not go away on retry (e.g. the resume lacks required fields)
+class PermanentItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentItemError';
+  }
+}
+
+async function findProfileByHash(supabaseClient: SupabaseClient, userId: string, contentHash: string): Promise<string | null> {
+  const { data } = await supabaseClient
+    .from('profiles')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+async function processItem(supabaseClient: SupabaseClient, llm: LlmProvider, item: IngestionItem): Promise<ItemResult> {
+  const { data: blob, error: downloadError } = await supabaseClient.storage
+    .from('resumes')
+    .download(item.storage_path);
+
+  if (downloadError || !blob) {
+    throw new Error(`Storage download failed: ${downloadError?.message ?? 'file not found'}`);
+  }
+
+  const fileBytes = await blob.arrayBuffer();
+  // Always hashed here: a client-supplied hash could point dedupe at a different file
+  const contentHash = await sha256Hex(fileBytes);
+  const existingProfileId = await findProfileByHash(supabaseClient, item.user_id, contentHash);
+  if (existingProfileId) {
+    return { profileId: existingProfileId, duplicate: true };
+  }
+
+  const content = await extractResumeContent(fileBytes, item.file_name, item.mime_type || blob.type || '');
+  if (content.kind === 'unsupported') {
+    throw new PermanentItemError(content.reason);
+  }
+
+  // JSON Resume documents are already structured and skip the model
+  const isJsonResume = content.format === 'json';
+  let candidate: Record<string, unknown> | null = isJsonResume ? readJsonResume(content.kind === 'text' ? content.text : '') : null;
+  if (isJsonResume && !candidate) {
+    throw new PermanentItemError('Not a valid JSON Resume document');
+  }
+
+  if (!candidate) {
+    try {
+      const rawText = await llm.generateJson({
+        parts: [
+          {
+            text: `Extract data from this resume. Return ONLY valid JSON.
+
+EXTRACT:
+- full_name (MUST be person's real name from resume, NOT filename)
+- email, phone_number, location, job_title
+- years_of_experience (integer)
+- sector
+- skills (array, max 10)
+- experience (max 200 chars)
+- education (max 150 chars)
+${POSITIONS_PROMPT_FIELD}
+${EDUCATION_PROMPT_FIELD}
+- resume_text (FULL raw text content from resume for AI matching)
+${LANGUAGE_PROMPT_FIELD}
+
+${languagePromptInstructions()}
+
+Output format: {"candidates": [...]}`
+          },
+          // Only images and scanned PDFs are sent as files; everything else as extracted text
+          content.kind === 'text'
+            ? { text: `--- RESUME TEXT ---\n${content.text}` }
+            : {
+              inlineData: {
+                mimeType: content.mimeType,
+                data: bytesToBase64(new Uint8Array(fileBytes))
+              }
+            }
+        ],
+        temperature: 0,
+        maxOutputTokens: 8192,
+        timeoutMs: LLM_TIMEOUT_MS
+      });
+
+      const parsed = safeJsonParse(rawText);
+      const extracted: unknown = Array.isArray(parsed?.candidates) ? parsed.candidates[0] : parsed;
+      candidate = extracted && typeof extracted === 'object' && !Array.isArray(extracted)
+        ? extracted as Record<string, unknown>
+        : null;
+      if (!candidate) {
+        throw new Error('AI response could not be parsed');
+      }
+    } catch (llmError) {
+      // Retry with the model while attempts remain; on the last one keep a rule-based partial profile
+      if (item.attempts < item.max_attempts) throw llmError;
+      console.warn(`[ITEM ${item.id}] AI extraction failed on final attempt, falling back to rules:`, llmError);
+    }
+  }
+
+  const needsAiEnrichment = !candidate;
+  let profile;
+  if (needsAiEnrichment) {
+    if (content.kind !== 'text') {
+      throw new PermanentItemError('AI extraction failed and the file has no readable text');
+    }
+    profile = normalizeProfile(extractProfileWithRules(content.text), null, item.storage_path);
+  } else {
+    profile = normalizeProfile(candidate, null, item.storage_path);
+  }
+  // A resume sent by email without an address of its own is reachable at the sender
+  profile.email ??= item.sender_email;
+
+  if (candidate) {
+    const missingFields = missingRequiredFields(profile);
+    if (missingFields.length > 0) {
+      await quarantineCandidate(supabaseClient, {
+        userId: item.user_id,
+        fileName: item.file_name,
+        resumeFileUrl: item.storage_path,
+        contentHash,
+        source: item.source,
+        candidate: {
+          ...profile,
+          ...resolveLanguageFields(candidate.resume_language, content.kind === 'text' ? content.text : null, !isJsonResume),
+          cover_letter: item.cover_letter,
+          positions: normalizePositions(candidate.positions),
+          education_history: normalizeEducation(candidate.education_history)
+        },
+        missingFields
+      });
+      throw new PermanentItemError(`Missing required fields (${missingFields.join(', ')}); sent to the review queue`);
+    }
+  }
+
+  const { data: inserted, error: insertError } = await supabaseClient
+    .from('profiles')
+    .insert({
+      ...profile,
+      years_of_experience: profile.years_of_experience ?? 0,
+      user_id: item.user_id,
+      source: item.source,
+      content_hash: contentHash,
+      cover_letter: item.cover_letter,
+      ...resolveLanguageFields(candidate?.resume_language, content.kind === 'text' ? content.text : null, !needsAiEnrichment && !isJsonResume),
+      needs_ai_enrichment: needsAiEnrichment
+    })
+    .select('id')
+    .single();
+
+  // Another item with the same file won the race to insert
+  if (insertError?.code === '23505') {
+    const racedProfileId = await findProfileByHash(supabaseClient, item.user_id, contentHash);
+    if (racedProfileId) return { profileId: racedProfileId, duplicate: true };
+  }
+
+  if (insertError) {
+    throw new Error(`Database insertion failed: ${insertError.message}`);
+  }
+
+  try {
+    await saveProfileEmbedding(supabaseClient, llm, inserted.id);
+  } catch (embError) {
+    console.error(`[ITEM ${item.id}] Embedding error, continuing without it:`, embError);
+  }
+  await savePositions(supabaseClient, inserted.id, item.user_id, normalizePositions(candidate?.positions));
+  await saveEducation(supabaseClient, inserted.id, item.user_id, normalizeEducation(candidate?.education_history));
+  await saveProfileChunks(supabaseClient, llm, inserted.id);
+
+  return { profileId: inserted.id, duplicate: false };
+}
+
+// Unpack a ZIP into child items that go through the normal queue. Folders are walked,
+// nested archives become archive items of their own and unsupported entries are
+// recorded as failed children so they show up in the job's results.
+async function expandArchive(supabaseClient: SupabaseClient, item: IngestionItem): Promise<number> {
+  const { data: blob, error: downloadError } = await supabaseClient.storage
+    .from('resumes')
+    .download(item.storage_path);
+
+  if (downloadError || !blob) {
+    throw new Error(`Storage download failed: ${downloadError?.message ?? 'file not found'}`);
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  } catch (zipError) {
+    throw new PermanentItemError(`Invalid ZIP archive: ${zipError instanceof Error ? zipError.message : String(zipError)}`);
+  }
+
+  const entries = Object.values(zip.files).filter((entry) => {
+    const baseName = entry.name.split('/').pop() ?? '';
+    return !entry.dir && !entry.name.startsWith('__MACOSX/') && !baseName.startsWith('.');
+  });
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new PermanentItemError(`Archive has ${entries.length} files; the limit is ${MAX_ARCHIVE_ENTRIES}`);
+  }
+
+  // A retried expansion skips entries that were already queued
+  const { data: existing } = await supabaseClient
+    .from('ingestion_items')
+    .select('file_name')
+    .eq('parent_item_id', item.id);
+  const queued = new Set((existing ?? []).map((child: { file_name: string }) => child.file_name));
+  const source = item.source ?? item.file_name;
+
+  let index = 0;
+  for (const entry of entries) {
+    index++;
+    if (queued.has(entry.name)) continue;
+
+    const baseName = entry.name.split('/').pop() ?? entry.name;
+    const format = detectResumeFormat(baseName, '');
+    const child: ChildItem = {
+      job_id: item.job_id,
+      user_id: item.user_id,
+      parent_item_id: item.id,
+      source,
+      file_name: entry.name,
+      mime_type: guessMimeType(baseName),
+    };
+
+    if (format === 'unknown') {
+      await supabaseClient.from('ingestion_items').insert({
+        ...child,
+        storage_path: `${item.storage_path}#${entry.name}`,
+        status: 'failed',
+        last_error: 'Unsupported file type',
+      });
+      continue;
+    }
+
+    await queueChildFile(supabaseClient, item, child, baseName, index, await entry.async('uint8array'));
+  }
+
+  return entries.length;
+}
+
+// Stores an unpacked file and queues it, or records it as a duplicate of a profile
+// that was already imported from the same bytes
+async function queueChildFile(
+  supabaseClient: SupabaseClient,
+  item: IngestionItem,
+  child: ChildItem,
+  baseName: string,
+  index: number,
+  bytes: Uint8Array
+): Promise<void> {
+  const contentHash = await sha256Hex(bytes);
+  const existingProfileId = await findProfileByHash(supabaseClient, item.user_id, contentHash);
+  if (existingProfileId) {
+    await supabaseClient.from('ingestion_items').insert({
+      ...child,
+      storage_path: `${item.storage_path}#${child.file_name}`,
+      content_hash: contentHash,
+      status: 'duplicate',
+      profile_id: existingProfileId,
+    });
+    return;
+  }
+
+  const storagePath = userStoragePath(item.user_id, baseName, index);
+  const { error: uploadError } = await supabaseClient.storage
+    .from('resumes')
+    .upload(storagePath, bytes, { contentType: child.mime_type ?? 'application/octet-stream', upsert: false });
+
+  if (uploadError) {
+    throw new Error(`Storage upload failed for ${child.file_name}: ${uploadError.message}`);
+  }
+
+  const { error: insertError } = await supabaseClient.from('ingestion_items').insert({
+    ...child,
+    storage_path: storagePath,
+    file_size: bytes.length,
+    content_hash: contentHash,
+  });
+  if (insertError) {
+    throw new Error(`Failed to queue ${child.file_name}: ${insertError.message}`);
+  }
+}
+
+// Unpack an .eml or .mbox into one child item per PDF/DOCX attachment. The sender and
+// the message body travel with each attachment; messages without a resume are skipped.
+async function expandEmail(supabaseClient: SupabaseClient, item: IngestionItem): Promise<number> {
+  const { data: blob, error: downloadError } = await supabaseClient.storage
+    .from('resumes')
+    .download(item.storage_path);
+
+  if (downloadError || !blob) {
+    throw new Error(`Storage download failed: ${downloadError?.message ?? 'file not found'}`);
+  }
+
+  const messages = parseMailFile(new Uint8Array(await blob.arrayBuffer()), item.file_name, item.mime_type ?? '');
+  const attachments = messages.flatMap((message, messageIndex) =>
+    message.attachments
+      .filter((attachment) => EMAIL_ATTACHMENT_FORMATS.has(detectResumeFormat(attachment.fileName, attachment.mimeType)))
+      .map((attachment) => ({
+        message,
+        attachment,
+        // Unique within the file, so a retried expansion can tell what was already queued
+        fileName: messages.length > 1
+          ? `${message.fromEmail ?? 'unknown sender'} #${messageIndex + 1}/${attachment.fileName}`
+          : attachment.fileName,
+      }))
+  );
+
+  if (attachments.length === 0) {
+    throw new PermanentItemError(`No PDF or DOCX attachments found in ${messages.length} message(s)`);
+  }
+  if (attachments.length > MAX_ARCHIVE_ENTRIES) {
+    throw new PermanentItemError(`Mailbox has ${attachments.length} attachments; the limit is ${MAX_ARCHIVE_ENTRIES}`);
+  }
+
+  const { data: existing } = await supabaseClient
+    .from('ingestion_items')
+    .select('file_name')
+    .eq('parent_item_id', item.id);
+  const queued = new Set((existing ?? []).map((child: { file_name: string }) => child.file_name));
+  const source = item.source ?? item.file_name;
+
+  let index = 0;
+  for (const { message, attachment, fileName } of attachments) {
+    index++;
+    if (queued.has(fileName)) continue;
+
+    await queueChildFile(supabaseClient, item, {
+      job_id: item.job_id,
+      user_id: item.user_id,
+      parent_item_id: item.id,
+      source,
+      file_name: fileName,
+      mime_type: guessMimeType(attachment.fileName) ?? attachment.mimeType,
+      sender_email: message.fromEmail,
+      cover_letter: message.body?.substring(0, MAX_COVER_LETTER_CHARS) ?? null,
+    }, attachment.fileName, index, attachment.bytes);
+  }
+
+  return attachments.length;
+}
+
+async function handleItem(supabaseClient: SupabaseClient, llm: LlmProvider, item: IngestionItem): Promise<void> {
+  try {
+    console.log(`[ITEM ${item.id}] Processing ${item.file_name} (attempt ${item.attempts}/${item.max_attempts})`);
+
+    // Files are read with the service role; never follow a path out of the owner's folder
+    if (!item.storage_path.startsWith(`${item.user_id}/`)) {
+      throw new PermanentItemError('File is not in the owner\'s storage folder');
+    }
+
+    const format = detectResumeFormat(item.file_name, item.mime_type ?? '');
+    if (format === 'archive' || format === 'email') {
+      const count = format === 'archive'
+        ? await expandArchive(supabaseClient, item)
+        : await expandEmail(supabaseClient, item);
+      await supabaseClient
+        .from('ingestion_items')
+        .update({ status: 'expanded', last_error: null, locked_at: null, updated_at: new Date().toISOString() })
+        .eq('id', item.id);
+      console.log(`[ITEM ${item.id}] ✓ ${item.file_name} expanded into ${count} item(s)`);
+      return;
+    }
+
+    const { profileId, duplicate } = await processItem(supabaseClient, llm, item);
+
+    await supabaseClient
+      .from('ingestion_items')
+      .update({
+        status: duplicate ? 'duplicate' : 'completed',
+        profile_id: profileId,
+        last_error: null,
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', item.id);
+    console.log(`[ITEM ${item.id}] ✓ ${item.file_name} -> ${duplicate ? 'already imported as ' : ''}profile ${profileId}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = error instanceof PermanentItemError || item.attempts >= item.max_attempts;
+    console.error(`[ITEM ${item.id}] ✗ ${item.file_name}: ${message}${exhausted ? '' : ' - will retry'}`);
+
+    await supabaseClient
+      .from('ingestion_items')
+      .update({ status: exhausted ? 'failed' : 'pending', last_error: message, locked_at: null, updated_at: new Date().toISOString() })
+      .eq('id', item.id);
+  }
+}
+
+async function runWorker(supabaseClient: SupabaseClient, llmProviders: LlmProvider[], jobId: string): Promise<void> {
+  const startedAt = Date.now();
+  let outOfTime = false;
+
+  while (true) {
+    if (Date.now() - startedAt > TIME_BUDGET_MS) {
+      outOfTime = true;
+      break;
+    }
+
+    const { data: job } = await supabaseClient
+      .from('ingestion_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single();
+
+    if (!job || job.status === 'cancelled') {
+      console.log(`[WORKER] Job ${jobId} is ${job ? 'cancelled' : 'missing'}, stopping`);
+      return;
+    }
+
+    const { data: items, error: claimError } = await supabaseClient.rpc('claim_ingestion_items', {
+      p_job_id: jobId,
+      p_limit: PARALLEL_ITEMS
+    });
+
+    if (claimError) {
+      console.error('[WORKER] Failed to claim items:', claimError);
+      break;
+    }
+    if (!items || items.length === 0) {
+      // Nothing to claim, but another invocation may have died holding items: wait for
+      // their locks to expire (and hand over to a fresh invocation when out of time)
+      const { count: stalled } = await supabaseClient
+        .from('ingestion_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('job_id', jobId)
+        .eq('status', 'processing');
+      if (!stalled) break;
+      await new Promise((resolve) => setTimeout(resolve, STALLED_POLL_MS));
+      continue;
+    }
+
+    console.log(`[WORKER] Claimed ${items.length} item(s) for job ${jobId}`);
+    await Promise.all(
+      (items as IngestionItem[]).map((item, index) => handleItem(supabaseClient, llmProviders[index % llmProviders.length], item))
+    );
+    await supabaseClient.rpc('refresh_ingestion_job', { p_job_id: jobId });
+  }
+
+  const { data: refreshed } = await supabaseClient.rpc('refresh_ingestion_job', { p_job_id: jobId });
+  console.log(`[WORKER] Job ${jobId}: ${refreshed?.processed_items ?? '?'}/${refreshed?.total_items ?? '?'} processed, status ${refreshed?.status}`);
+
+  if (outOfTime && refreshed?.status !== 'completed' && refreshed?.status !== 'cancelled') {
+    // Hand the remaining items to a fresh invocation with its own time budget
+    console.log(`[WORKER] Time budget used, continuing job ${jobId} in a new invocation`);
+    await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-ingestion-job`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      },
+      body: JSON.stringify({ jobId }),
+    }).catch((error) => console.error('[WORKER] Failed to chain next invocation:', error));
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let jobId: string;
+  try {
+    const body = await req.json();
+    jobId = body.jobId;
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (!jobId) {
+    return new Response(
+      JSON.stringify({ error: 'jobId is required' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const { data: job, error: jobError } = await supabaseClient
+      .from('ingestion_jobs')
+      .select('id, user_id, status')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError || !job) {
+      return new Response(
+        JSON.stringify({ error: 'Ingestion job not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Chained invocations authenticate with the service role key; users may only run their own jobs
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError || !user || user.id !== job.user_id) {
+        return new Response(
+          JSON.stringify({ error: 'User not authenticated' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      return new Response(
+        JSON.stringify({ success: true, status: job.status }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let llmProviders: LlmProvider[];
+    try {
+      llmProviders = createLlmProviders([
+        'GEMINI_API_KEY_1',
+        'GEMINI_API_KEY_2',
+        'GEMINI_API_KEY_3',
+        'GEMINI_API_KEY_4'
+      ]);
+    } catch (configError) {
+      const message = configError instanceof Error ? configError.message : String(configError);
+      console.error(`[INIT] ${message}`);
+      return new Response(
+        JSON.stringify({ error: message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Respond immediately; the job is processed in the background and clients poll its items
+    EdgeRuntime.waitUntil(
+      runWorker(supabaseClient, llmProviders, jobId).catch((error) => {
+        console.error(`[WORKER] Job ${jobId} crashed:`, error);
+      })
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, status: 'processing' }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error starting ingestion worker:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
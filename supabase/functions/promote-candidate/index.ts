@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLlmProviders, type LlmProvider } from "../_shared/llm.ts";
+import { saveProfileChunks } from "../_shared/chunks.ts";
+import { normalizeEducation, saveEducation } from "../_shared/education.ts";
+import { saveProfileEmbedding } from "../_shared/embedding.ts";
+import { detectLanguage, normalizeLanguageCode } from "../_shared/language.ts";
+import { normalizePositions, savePositions } from "../_shared/positions.ts";
+import { missingRequiredFields } from "../_shared/quarantine.ts";
+import { normalizeProfile, sanitizeString } from "../_shared/resume.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Saves a review queue entry as a candidate once a recruiter has filled in the missing
+// fields. The profile goes through the same save path as an import: structured history,
+// embedding and section chunks, so it is found by search and matching like any other.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not authenticated' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { reviewId, profile: values } = await req.json();
+    if (typeof reviewId !== 'string' || !values || typeof values !== 'object') {
+      return new Response(
+        JSON.stringify({ error: 'reviewId and profile are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: review, error: reviewError } = await supabaseClient
+      .from('quarantined_candidates')
+      .select('*')
+      .eq('id', reviewId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .maybeSingle();
+    if (reviewError) throw reviewError;
+    if (!review) {
+      return new Response(
+        JSON.stringify({ error: 'This resume is no longer awaiting review' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const profile = normalizeProfile(values, review.resume_text, review.resume_file_url);
+    const missingFields = missingRequiredFields(profile);
+    if (missingFields.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Missing required fields (${missingFields.join(', ')})` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let llm: LlmProvider;
+    try {
+      [llm] = createLlmProviders(['GEMINI_API_KEY']);
+    } catch (configError) {
+      const message = configError instanceof Error ? configError.message : String(configError);
+      console.error(`[INIT] ${message}`);
+      return new Response(
+        JSON.stringify({ error: message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const extracted: Record<string, unknown> = review.extracted ?? {};
+    const { data: inserted, error: insertError } = await supabaseClient
+      .from('profiles')
+      .insert({
+        ...profile,
+        years_of_experience: profile.years_of_experience ?? 0,
+        user_id: user.id,
+        source: review.source,
+        content_hash: review.content_hash,
+        cover_letter: sanitizeString(extracted.cover_letter),
+        // Entries queued before the language was kept fall back to the local guess
+        resume_language: normalizeLanguageCode(extracted.resume_language) ?? detectLanguage(review.resume_text),
+        original_resume_text: sanitizeString(extracted.original_resume_text),
+        needs_ai_enrichment: false
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      const duplicate = insertError.code === '23505';
+      return new Response(
+        JSON.stringify({ error: duplicate ? 'This resume is already saved as a candidate' : `Database insertion failed: ${insertError.message}` }),
+        { status: duplicate ? 409 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await savePositions(supabaseClient, inserted.id, user.id, normalizePositions(extracted.positions));
+    await saveEducation(supabaseClient, inserted.id, user.id, normalizeEducation(extracted.education_history));
+    try {
+      await saveProfileEmbedding(supabaseClient, llm, inserted.id);
+    } catch (embError) {
+      console.error(`[PROMOTE] Embedding error for profile ${inserted.id}, continuing without it:`, embError);
+    }
+    await saveProfileChunks(supabaseClient, llm, inserted.id);
+
+    const { error: updateError } = await supabaseClient
+      .from('quarantined_candidates')
+      .update({ status: 'promoted', profile_id: inserted.id, reviewed_at: new Date().toISOString() })
+      .eq('id', review.id);
+    if (updateError) throw updateError;
+
+    return new Response(
+      JSON.stringify({ success: true, profile_id: inserted.id }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error promoting candidate:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLlmProviders, type LlmProvider } from "../_shared/llm.ts";
+import { hybridSearch } from "../_shared/recall.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// The candidates page orders the profiles it already loaded by the returned IDs
+const DEFAULT_SEARCH_LIMIT = 100;
+const MAX_SEARCH_LIMIT = 500;
+// A few typed words embed loosely, so only clearly similar profiles join the keyword hits
+const SEARCH_SIMILARITY_THRESHOLD = 0.5;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let query: string;
+  let limit: number;
+  try {
+    const body = await req.json();
+    query = typeof body.query === 'string' ? body.query.trim() : '';
+    limit = Math.min(Math.max(Number(body.limit) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  } catch (_error) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (!query) {
+    return new Response(
+      JSON.stringify({ error: 'Search query is required' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not authenticated' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let llm: LlmProvider;
+    try {
+      [llm] = createLlmProviders(['GEMINI_API_KEY']);
+    } catch (configError) {
+      const message = configError instanceof Error ? configError.message : String(configError);
+      console.error(`[INIT] ${message}`);
+      return new Response(
+        JSON.stringify({ error: message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Typed searches keep web search syntax: every word must match unless joined by "or"
+    const { matches, vectorError } = await hybridSearch(supabaseClient, llm, user.id, query, {
+      count: limit,
+      threshold: SEARCH_SIMILARITY_THRESHOLD,
+      matchAnyTerm: false,
+    });
+    console.log(`[SEARCH] "${query.substring(0, 80)}" matched ${matches.length} profiles for ${user.id}${vectorError ? ' (full text only)' : ''}`);
+
+    return new Response(
+      JSON.stringify({
+        results: matches.map((match) => ({
+          profileId: match.profile_id,
+          score: match.score,
+          textRank: match.text_rank,
+          similarity: match.similarity,
+        })),
+        semantic: !vectorError,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error searching candidates:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,173 @@
+-- Durable ingestion queue: files are uploaded to storage first, then a worker
+-- processes them item by item with retries so large imports survive reloads
+-- and edge function timeouts.
+CREATE TABLE public.ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'cancelled')),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  processed_items INTEGER NOT NULL DEFAULT 0,
+  succeeded_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.ingestion_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.ingestion_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  mime_type TEXT,
+  file_size INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ingestion_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ingestion_jobs
+CREATE POLICY "Users can view their own ingestion jobs"
+ON public.ingestion_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own ingestion jobs"
+ON public.ingestion_jobs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own ingestion jobs"
+ON public.ingestion_jobs
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own ingestion jobs"
+ON public.ingestion_jobs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- RLS Policies for ingestion_items
+CREATE POLICY "Users can view their own ingestion items"
+ON public.ingestion_items
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The worker reads storage_path with the service role, so items may only point into
+-- the owner's own storage folder
+CREATE POLICY "Users can create their own ingestion items"
+ON public.ingestion_items
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND split_part(storage_path, '/', 1) = auth.uid()::text AND status = 'pending');
+
+-- Users may only cancel items that are still waiting; everything else is written by the worker
+CREATE POLICY "Users can cancel their own ingestion items"
+ON public.ingestion_items
+FOR UPDATE
+USING (auth.uid() = user_id AND status = 'pending')
+WITH CHECK (auth.uid() = user_id AND split_part(storage_path, '/', 1) = auth.uid()::text AND status = 'cancelled');
+
+-- Create indexes for better performance
+CREATE INDEX idx_ingestion_jobs_user_id ON public.ingestion_jobs(user_id, created_at DESC);
+CREATE INDEX idx_ingestion_items_job_status ON public.ingestion_items(job_id, status);
+
+-- Atomically claim the next items of a job for processing. Items stuck in
+-- 'processing' longer than the lock timeout (e.g. the worker hit its wall-clock
+-- limit) are reclaimed; items that ran out of attempts are marked failed.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_items(
+  p_job_id uuid,
+  p_limit integer,
+  p_lock_timeout_seconds integer DEFAULT 300
+)
+RETURNS SETOF public.ingestion_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+begin
+  update ingestion_items
+  set status = 'failed',
+      last_error = coalesce(last_error, 'Processing timed out'),
+      locked_at = null,
+      updated_at = now()
+  where job_id = p_job_id
+    and status = 'processing'
+    and locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+    and attempts >= max_attempts;
+
+  return query
+  update ingestion_items
+  set status = 'processing',
+      attempts = attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  where id in (
+    select id
+    from ingestion_items
+    where job_id = p_job_id
+      and (
+        status = 'pending'
+        or (status = 'processing' and locked_at < now() - make_interval(secs => p_lock_timeout_seconds))
+      )
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$;
+
+-- Recompute job counters and status from its items
+CREATE OR REPLACE FUNCTION public.refresh_ingestion_job(p_job_id uuid)
+RETURNS public.ingestion_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+declare
+  result ingestion_jobs;
+begin
+  update ingestion_jobs j
+  set processed_items = c.processed,
+      succeeded_items = c.succeeded,
+      failed_items = c.failed,
+      status = case
+        when j.status = 'cancelled' then 'cancelled'
+        when c.open_items = 0 and c.total >= j.total_items then 'completed'
+        when c.processed > 0 or c.in_flight > 0 then 'processing'
+        else j.status
+      end,
+      updated_at = now()
+  from (
+    select
+      count(*) as total,
+      count(*) filter (where status in ('completed', 'failed', 'cancelled')) as processed,
+      count(*) filter (where status = 'completed') as succeeded,
+      count(*) filter (where status = 'failed') as failed,
+      count(*) filter (where status in ('pending', 'processing')) as open_items,
+      count(*) filter (where status = 'processing') as in_flight
+    from ingestion_items
+    where job_id = p_job_id
+  ) c
+  where j.id = p_job_id
+  returning j.* into result;
+
+  return result;
+end;
+$$;
+
+-- Only the ingestion worker (service role) may claim or refresh jobs
+REVOKE EXECUTE ON FUNCTION public.claim_ingestion_items(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_ingestion_job(uuid) FROM PUBLIC, anon, authenticated;
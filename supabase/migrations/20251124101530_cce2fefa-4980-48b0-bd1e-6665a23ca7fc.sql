@@ -0,0 +1,7 @@
+-- Profiles saved from the rule-based extractor when the LLM was unavailable.
+-- They hold partial data until they are re-parsed with AI.
+ALTER TABLE public.profiles
+ADD COLUMN needs_ai_enrichment BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_profiles_needs_ai_enrichment ON public.profiles(user_id)
+WHERE needs_ai_enrichment;
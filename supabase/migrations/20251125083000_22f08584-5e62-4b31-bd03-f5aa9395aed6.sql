@@ -0,0 +1,59 @@
+-- Archive ingestion: a ZIP upload is queued as one item and expanded by the worker
+-- into child items, one per contained file. The archive item ends as 'expanded'.
+ALTER TABLE public.ingestion_items
+ADD COLUMN parent_item_id UUID REFERENCES public.ingestion_items(id) ON DELETE CASCADE,
+ADD COLUMN source TEXT;
+
+ALTER TABLE public.ingestion_items DROP CONSTRAINT ingestion_items_status_check;
+ALTER TABLE public.ingestion_items ADD CONSTRAINT ingestion_items_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'expanded'));
+
+CREATE INDEX idx_ingestion_items_parent ON public.ingestion_items(parent_item_id)
+WHERE parent_item_id IS NOT NULL;
+
+-- Where a candidate came from when it was not uploaded directly (e.g. the archive name)
+ALTER TABLE public.profiles
+ADD COLUMN source TEXT;
+
+-- total_items counts the files the client uploaded, so only top-level items are
+-- compared against it; children of expanded archives count towards the progress
+-- counters like any other item.
+CREATE OR REPLACE FUNCTION public.refresh_ingestion_job(p_job_id uuid)
+RETURNS public.ingestion_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+declare
+  result ingestion_jobs;
+begin
+  update ingestion_jobs j
+  set processed_items = c.processed,
+      succeeded_items = c.succeeded,
+      failed_items = c.failed,
+      status = case
+        when j.status = 'cancelled' then 'cancelled'
+        when c.open_items = 0 and c.top_level >= j.total_items then 'completed'
+        when c.processed > 0 or c.in_flight > 0 then 'processing'
+        else j.status
+      end,
+      updated_at = now()
+  from (
+    select
+      count(*) filter (where parent_item_id is null) as top_level,
+      count(*) filter (where status in ('completed', 'failed', 'cancelled')) as processed,
+      count(*) filter (where status = 'completed') as succeeded,
+      count(*) filter (where status = 'failed') as failed,
+      count(*) filter (where status in ('pending', 'processing')) as open_items,
+      count(*) filter (where status = 'processing') as in_flight
+    from ingestion_items
+    where job_id = p_job_id
+  ) c
+  where j.id = p_job_id
+  returning j.* into result;
+
+  return result;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_ingestion_job(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,59 @@
+-- SHA-256 of the uploaded file, so the same resume is only imported once per user
+ALTER TABLE public.profiles
+ADD COLUMN content_hash TEXT;
+
+CREATE UNIQUE INDEX idx_profiles_user_content_hash ON public.profiles(user_id, content_hash)
+WHERE content_hash IS NOT NULL;
+
+ALTER TABLE public.ingestion_items
+ADD COLUMN content_hash TEXT;
+
+-- Items whose file was already imported end as 'duplicate', linked to the existing profile
+ALTER TABLE public.ingestion_items DROP CONSTRAINT ingestion_items_status_check;
+ALTER TABLE public.ingestion_items ADD CONSTRAINT ingestion_items_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'expanded', 'duplicate'));
+
+ALTER TABLE public.ingestion_jobs
+ADD COLUMN skipped_items INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.refresh_ingestion_job(p_job_id uuid)
+RETURNS public.ingestion_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+declare
+  result ingestion_jobs;
+begin
+  update ingestion_jobs j
+  set processed_items = c.processed,
+      succeeded_items = c.succeeded,
+      failed_items = c.failed,
+      skipped_items = c.skipped,
+      status = case
+        when j.status = 'cancelled' then 'cancelled'
+        when c.open_items = 0 and c.top_level >= j.total_items then 'completed'
+        when c.processed > 0 or c.in_flight > 0 then 'processing'
+        else j.status
+      end,
+      updated_at = now()
+  from (
+    select
+      count(*) filter (where parent_item_id is null) as top_level,
+      count(*) filter (where status in ('completed', 'failed', 'cancelled', 'duplicate')) as processed,
+      count(*) filter (where status = 'completed') as succeeded,
+      count(*) filter (where status = 'failed') as failed,
+      count(*) filter (where status = 'duplicate') as skipped,
+      count(*) filter (where status in ('pending', 'processing')) as open_items,
+      count(*) filter (where status = 'processing') as in_flight
+    from ingestion_items
+    where job_id = p_job_id
+  ) c
+  where j.id = p_job_id
+  returning j.* into result;
+
+  return result;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_ingestion_job(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Structured work history: one row per position extracted from a resume.
+-- profiles.experience stays as the short summary used for embeddings and exports.
+CREATE TABLE public.candidate_positions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  company text,
+  title text,
+  start_date date,
+  end_date date,
+  is_current boolean NOT NULL DEFAULT false,
+  description text,
+  location text,
+  -- Order the positions appear in on the resume, 0 = first listed
+  position_index integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_candidate_positions_profile ON public.candidate_positions(profile_id, position_index);
+CREATE INDEX idx_candidate_positions_company ON public.candidate_positions(user_id, lower(company));
+
+-- Enable RLS
+ALTER TABLE public.candidate_positions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view positions of their own candidates
+CREATE POLICY "Users can view their own candidate positions"
+ON public.candidate_positions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can add positions to their own candidates
+CREATE POLICY "Users can create their own candidate positions"
+ON public.candidate_positions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Users can update positions of their own candidates
+CREATE POLICY "Users can update their own candidate positions"
+ON public.candidate_positions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete positions of their own candidates
+CREATE POLICY "Users can delete their own candidate positions"
+ON public.candidate_positions
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,49 @@
+-- Structured education: one row per qualification extracted from a resume.
+-- profiles.education stays as the short summary used for embeddings and exports.
+CREATE TABLE public.candidate_education (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  institution text,
+  degree text,
+  -- Normalized from the degree text so candidates can be filtered by level
+  degree_level text NOT NULL DEFAULT 'other'
+    CHECK (degree_level IN ('high_school', 'certificate', 'associate', 'bachelor', 'master', 'doctorate', 'other')),
+  field_of_study text,
+  start_year integer CHECK (start_year BETWEEN 1900 AND 2100),
+  end_year integer CHECK (end_year BETWEEN 1900 AND 2100),
+  grade text,
+  -- Order the records appear in on the resume, 0 = first listed
+  education_index integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_candidate_education_profile ON public.candidate_education(profile_id, education_index);
+CREATE INDEX idx_candidate_education_level ON public.candidate_education(user_id, degree_level);
+
+-- Enable RLS
+ALTER TABLE public.candidate_education ENABLE ROW LEVEL SECURITY;
+
+-- Users can view education of their own candidates
+CREATE POLICY "Users can view their own candidate education"
+ON public.candidate_education
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can add education to their own candidates
+CREATE POLICY "Users can create their own candidate education"
+ON public.candidate_education
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Users can update education of their own candidates
+CREATE POLICY "Users can update their own candidate education"
+ON public.candidate_education
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete education of their own candidates
+CREATE POLICY "Users can delete their own candidate education"
+ON public.candidate_education
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,326 @@
+-- Skills taxonomy: each user keeps a catalog of canonical skills with aliases and
+-- optional parent categories. Extracted skills are resolved against it by a trigger
+-- on profiles, so every ingestion path stores canonical names and IDs.
+
+-- Comparison key for skill names: case, spacing and separators are ignored so that
+-- "Node.js", "NodeJS" and "node js" resolve to the same skill
+CREATE OR REPLACE FUNCTION public.skill_key(p_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  select nullif(regexp_replace(lower(btrim(p_name)), '[\s._/-]+', '', 'g'), '')
+$$;
+
+CREATE TABLE public.skills (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  parent_id uuid REFERENCES public.skills(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE UNIQUE INDEX idx_skills_user_key ON public.skills(user_id, public.skill_key(name));
+CREATE INDEX idx_skills_parent ON public.skills(parent_id) WHERE parent_id IS NOT NULL;
+
+CREATE TABLE public.skill_aliases (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  skill_id uuid NOT NULL REFERENCES public.skills(id) ON DELETE CASCADE,
+  alias text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_skill_aliases_user_key ON public.skill_aliases(user_id, public.skill_key(alias));
+CREATE INDEX idx_skill_aliases_skill ON public.skill_aliases(skill_id);
+
+-- Built-in synonyms applied before a new skill is added to a catalog
+CREATE TABLE public.skill_synonym_defaults (
+  alias_key text NOT NULL PRIMARY KEY,
+  canonical_name text NOT NULL
+);
+
+INSERT INTO public.skill_synonym_defaults (alias_key, canonical_name) VALUES
+  ('js', 'JavaScript'),
+  ('ecmascript', 'JavaScript'),
+  ('es6', 'JavaScript'),
+  ('ts', 'TypeScript'),
+  ('reactjs', 'React'),
+  ('vuejs', 'Vue'),
+  ('angularjs', 'Angular'),
+  ('node', 'Node.js'),
+  ('nextjs', 'Next.js'),
+  ('py', 'Python'),
+  ('python3', 'Python'),
+  ('golang', 'Go'),
+  ('csharp', 'C#'),
+  ('cpp', 'C++'),
+  ('postgres', 'PostgreSQL'),
+  ('psql', 'PostgreSQL'),
+  ('mongo', 'MongoDB'),
+  ('k8s', 'Kubernetes'),
+  ('amazonwebservices', 'AWS'),
+  ('googlecloud', 'GCP'),
+  ('googlecloudplatform', 'GCP'),
+  ('microsoftazure', 'Azure'),
+  ('ml', 'Machine Learning'),
+  ('ai', 'Artificial Intelligence'),
+  ('msexcel', 'Excel'),
+  ('microsoftexcel', 'Excel'),
+  ('msoffice', 'Microsoft Office');
+
+-- Canonical skill IDs alongside the canonical names, for exact containment queries
+ALTER TABLE public.profiles
+ADD COLUMN skill_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_profiles_skill_ids ON public.profiles USING GIN(skill_ids);
+
+-- Enable RLS
+ALTER TABLE public.skills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.skill_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.skill_synonym_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own skills"
+ON public.skills
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own skills"
+ON public.skills
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own skills"
+ON public.skills
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own skills"
+ON public.skills
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own skill aliases"
+ON public.skill_aliases
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own skill aliases"
+ON public.skill_aliases
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- merge_skills and add_skill_alias repoint existing aliases at another skill
+CREATE POLICY "Users can update their own skill aliases"
+ON public.skill_aliases
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own skill aliases"
+ON public.skill_aliases
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can view default synonyms"
+ON public.skill_synonym_defaults
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Aliases win over names so a merged skill keeps resolving to its target
+CREATE OR REPLACE FUNCTION public.find_skill(p_user_id uuid, p_key text)
+RETURNS public.skills
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  select s.*
+  from skills s
+  left join skill_aliases a
+    on a.skill_id = s.id and a.user_id = p_user_id and skill_key(a.alias) = p_key
+  where s.user_id = p_user_id and (a.id is not null or skill_key(s.name) = p_key)
+  order by a.id is null
+  limit 1
+$$;
+
+-- Find the canonical skill for an extracted name, adding it to the catalog when new
+CREATE OR REPLACE FUNCTION public.resolve_skill(p_user_id uuid, p_name text)
+RETURNS public.skills
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+declare
+  v_name text := btrim(p_name);
+  v_key text := skill_key(p_name);
+  v_default text;
+  result skills;
+begin
+  if v_key is null then
+    return null;
+  end if;
+
+  result := find_skill(p_user_id, v_key);
+  if result.id is not null then
+    return result;
+  end if;
+
+  select canonical_name into v_default from skill_synonym_defaults where alias_key = v_key;
+  if v_default is not null then
+    v_name := v_default;
+    v_key := skill_key(v_default);
+    result := find_skill(p_user_id, v_key);
+    if result.id is not null then
+      return result;
+    end if;
+  end if;
+
+  insert into skills (user_id, name)
+  values (p_user_id, v_name)
+  on conflict (user_id, skill_key(name)) do nothing
+  returning * into result;
+
+  -- A concurrent insert created it first
+  if result.id is null then
+    result := find_skill(p_user_id, v_key);
+  end if;
+
+  return result;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_skill(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.normalize_profile_skills()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+declare
+  v_raw text;
+  v_skill skills;
+  v_ids uuid[] := '{}';
+  v_names text[] := '{}';
+begin
+  if new.skills is null or new.user_id is null then
+    new.skill_ids := '{}';
+    return new;
+  end if;
+
+  foreach v_raw in array new.skills loop
+    v_skill := resolve_skill(new.user_id, v_raw);
+    if v_skill.id is not null and not (v_skill.id = any(v_ids)) then
+      v_ids := v_ids || v_skill.id;
+      v_names := v_names || v_skill.name;
+    end if;
+  end loop;
+
+  new.skills := v_names;
+  new.skill_ids := v_ids;
+  return new;
+end;
+$$;
+
+CREATE TRIGGER normalize_profile_skills
+BEFORE INSERT OR UPDATE OF skills ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.normalize_profile_skills();
+
+-- Re-run resolution for the caller's profiles; assigning skills fires the trigger
+CREATE OR REPLACE FUNCTION public.renormalize_profile_skills()
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+declare
+  updated integer;
+begin
+  update profiles set skills = skills
+  where user_id = auth.uid() and skills is not null;
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+-- Fold one skill into another: its name and aliases become aliases of the target,
+-- its children move under the target and profiles that had it are re-resolved
+CREATE OR REPLACE FUNCTION public.merge_skills(p_source_id uuid, p_target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+declare
+  v_source skills;
+  v_target skills;
+  updated integer;
+begin
+  select * into v_source from skills where id = p_source_id and user_id = auth.uid();
+  select * into v_target from skills where id = p_target_id and user_id = auth.uid();
+  if v_source.id is null or v_target.id is null then
+    raise exception 'Skill not found';
+  end if;
+  if v_source.id = v_target.id then
+    raise exception 'Cannot merge a skill into itself';
+  end if;
+
+  update skill_aliases set skill_id = v_target.id where skill_id = v_source.id;
+  if v_target.parent_id = v_source.id then
+    update skills set parent_id = nullif(v_source.parent_id, v_target.id) where id = v_target.id;
+  end if;
+  update skills set parent_id = v_target.id where parent_id = v_source.id;
+  delete from skills where id = v_source.id;
+
+  insert into skill_aliases (user_id, skill_id, alias)
+  values (auth.uid(), v_target.id, v_source.name)
+  on conflict (user_id, skill_key(alias)) do update set skill_id = excluded.skill_id;
+
+  update profiles set skills = skills
+  where user_id = auth.uid() and v_source.id = any(skill_ids);
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+-- Point an alias at a skill. If the alias is already a skill of its own, that skill
+-- is merged into this one instead.
+CREATE OR REPLACE FUNCTION public.add_skill_alias(p_skill_id uuid, p_alias text)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+declare
+  v_key text := skill_key(p_alias);
+  v_existing skills;
+  updated integer;
+begin
+  if v_key is null then
+    raise exception 'Alias cannot be empty';
+  end if;
+  if not exists (select 1 from skills where id = p_skill_id and user_id = auth.uid()) then
+    raise exception 'Skill not found';
+  end if;
+
+  select * into v_existing from skills where user_id = auth.uid() and skill_key(name) = v_key;
+  if v_existing.id = p_skill_id then
+    return 0;
+  end if;
+  if v_existing.id is not null then
+    return merge_skills(v_existing.id, p_skill_id);
+  end if;
+
+  insert into skill_aliases (user_id, skill_id, alias)
+  values (auth.uid(), p_skill_id, btrim(p_alias))
+  on conflict (user_id, skill_key(alias)) do update set skill_id = excluded.skill_id;
+
+  update profiles set skills = skills
+  where user_id = auth.uid()
+    and exists (select 1 from unnest(skills) s where skill_key(s) = v_key);
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+-- Build each user's catalog from the skills already stored on their profiles
+UPDATE public.profiles SET skills = skills WHERE skills IS NOT NULL AND user_id IS NOT NULL;
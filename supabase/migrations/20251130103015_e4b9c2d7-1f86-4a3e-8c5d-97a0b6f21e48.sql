@@ -0,0 +1,74 @@
+-- Resume versions: every file a candidate's profile was extracted from, with a snapshot
+-- of the extracted fields so versions can be compared. Uploading a new version updates
+-- the profile in place, so bookmarks and candidate_matches keep pointing at it.
+CREATE TABLE public.resume_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id uuid,
+  version_number integer NOT NULL,
+  resume_file_url text,
+  content_hash text,
+  snapshot jsonb NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (profile_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.resume_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view versions of their own candidates; rows are written by the trigger below
+CREATE POLICY "Users can view their own resume versions"
+ON public.resume_versions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.profile_version_snapshot(p public.profiles)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  select jsonb_build_object(
+    'full_name', p.full_name,
+    'email', p.email,
+    'phone_number', p.phone_number,
+    'location', p.location,
+    'job_title', p.job_title,
+    'years_of_experience', p.years_of_experience,
+    'sector', p.sector,
+    'skills', p.skills,
+    'experience', p.experience,
+    'education', p.education,
+    'resume_text', p.resume_text
+  )
+$$;
+
+-- A new version is recorded whenever a profile gets a (new) resume file
+CREATE OR REPLACE FUNCTION public.record_resume_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+begin
+  if tg_op = 'UPDATE' and new.resume_file_url is not distinct from old.resume_file_url then
+    return new;
+  end if;
+
+  insert into resume_versions (profile_id, user_id, version_number, resume_file_url, content_hash, snapshot)
+  select new.id, new.user_id, coalesce(max(v.version_number), 0) + 1, new.resume_file_url, new.content_hash,
+    profile_version_snapshot(new)
+  from resume_versions v
+  where v.profile_id = new.id;
+
+  return new;
+end;
+$$;
+
+CREATE TRIGGER record_resume_version
+AFTER INSERT OR UPDATE OF resume_file_url ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.record_resume_version();
+
+-- Existing profiles start with their current resume as version 1
+INSERT INTO public.resume_versions (profile_id, user_id, version_number, resume_file_url, content_hash, snapshot, created_at)
+SELECT p.id, p.user_id, 1, p.resume_file_url, p.content_hash, public.profile_version_snapshot(p), p.created_at
+FROM public.profiles p;
@@ -0,0 +1,42 @@
+-- Review queue: extractions that failed validation (missing name, email, job title,
+-- sector or skills) are kept here with their source file instead of being dropped,
+-- until a recruiter completes them into a profile or discards them.
+CREATE TABLE public.quarantined_candidates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  file_name text NOT NULL,
+  resume_file_url text,
+  content_hash text,
+  source text,
+  -- Normalized fields the extraction did find, keyed like profiles columns
+  extracted jsonb NOT NULL DEFAULT '{}'::jsonb,
+  resume_text text,
+  missing_fields text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'promoted', 'discarded')),
+  profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  reviewed_at timestamp with time zone
+);
+
+CREATE INDEX idx_quarantined_candidates_user_status ON public.quarantined_candidates(user_id, status, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.quarantined_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own quarantined candidates
+CREATE POLICY "Users can view their own quarantined candidates"
+ON public.quarantined_candidates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can review (promote or discard) their own quarantined candidates
+CREATE POLICY "Users can update their own quarantined candidates"
+ON public.quarantined_candidates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete their own quarantined candidates
+CREATE POLICY "Users can delete their own quarantined candidates"
+ON public.quarantined_candidates
+FOR DELETE
+USING (auth.uid() = user_id);
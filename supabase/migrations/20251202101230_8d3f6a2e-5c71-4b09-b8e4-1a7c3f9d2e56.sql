@@ -0,0 +1,41 @@
+-- Track which model and which profile text each embedding came from, so stale vectors
+-- can be found and re-embedded after a model switch or a change to the embedding recipe.
+-- Existing embeddings were built from inconsistent text and are left unlabelled; the
+-- backfill-embeddings function treats them as stale and rebuilds them.
+ALTER TABLE public.profiles
+  ADD COLUMN embedding_model text,
+  ADD COLUMN embedding_source_hash text;
+
+CREATE INDEX idx_profiles_user_embedding_model ON public.profiles(user_id, embedding_model);
+
+-- Only compare against embeddings from the same model; vectors from different models
+-- share a dimension but not a meaning
+DROP FUNCTION IF EXISTS public.match_profiles(vector, double precision, integer, uuid);
+
+CREATE OR REPLACE FUNCTION public.match_profiles(
+  query_embedding vector,
+  match_threshold double precision,
+  match_count integer,
+  filter_user_id uuid,
+  filter_embedding_model text DEFAULT NULL
+)
+RETURNS SETOF profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+begin
+  return query
+  select *
+  from profiles
+  where user_id = filter_user_id
+    and profiles.embedding is not null
+    and (filter_embedding_model is null or profiles.embedding_model = filter_embedding_model)
+    and 1 - (profiles.embedding <=> query_embedding) > match_threshold
+  order by profiles.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Called by the edge functions for the authenticated user only
+REVOKE EXECUTE ON FUNCTION public.match_profiles(vector, double precision, integer, uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,94 @@
+-- Section-level embeddings: each profile is split into a summary, one chunk per position,
+-- skills and education (or windows over the resume text when there is no work history),
+-- so semantic search can match and point at the passage that matched.
+CREATE TABLE public.profile_chunks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  section text NOT NULL CHECK (section IN ('summary', 'position', 'skills', 'education', 'resume')),
+  chunk_index integer NOT NULL,
+  content text NOT NULL,
+  embedding vector(768) NOT NULL,
+  embedding_model text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (profile_id, chunk_index)
+);
+
+CREATE INDEX idx_profile_chunks_user_id ON public.profile_chunks(user_id);
+
+-- The model a profile was last chunked with, set even when it yields no chunks, so the
+-- embedding backfill does not keep re-chunking profiles that have nothing to split
+ALTER TABLE public.profiles
+ADD COLUMN chunks_model text;
+CREATE INDEX idx_profile_chunks_embedding ON public.profile_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Enable RLS
+ALTER TABLE public.profile_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are written by the edge functions; users can only read their own
+CREATE POLICY "Users can view their own profile chunks"
+ON public.profile_chunks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Best-matching chunks per candidate: candidates are ranked by their best chunk and
+-- up to chunks_per_profile passages are returned for each, most similar first.
+-- filter_profile_ids restricts the search to candidates that are already shortlisted.
+CREATE OR REPLACE FUNCTION public.match_profile_chunks(
+  query_embedding vector,
+  match_threshold double precision,
+  match_count integer,
+  filter_user_id uuid,
+  chunks_per_profile integer DEFAULT 3,
+  filter_embedding_model text DEFAULT NULL,
+  filter_profile_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  profile_id uuid,
+  chunk_id uuid,
+  section text,
+  chunk_index integer,
+  content text,
+  similarity double precision,
+  profile_similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  with scored as (
+    select c.profile_id, c.id as chunk_id, c.section, c.chunk_index, c.content,
+           1 - (c.embedding <=> query_embedding) as similarity
+    from profile_chunks c
+    where c.user_id = filter_user_id
+      and (filter_embedding_model is null or c.embedding_model = filter_embedding_model)
+      and (filter_profile_ids is null or c.profile_id = any(filter_profile_ids))
+  ),
+  ranked as (
+    select s.*,
+           row_number() over (partition by s.profile_id order by s.similarity desc) as chunk_rank,
+           max(s.similarity) over (partition by s.profile_id) as best_similarity
+    from scored s
+    where s.similarity > match_threshold
+  ),
+  top_profiles as (
+    select r.profile_id, r.best_similarity
+    from ranked r
+    where r.chunk_rank = 1
+    order by r.best_similarity desc
+    limit match_count
+  )
+  select r.profile_id, r.chunk_id, r.section, r.chunk_index, r.content, r.similarity, t.best_similarity
+  from ranked r
+  join top_profiles t on t.profile_id = r.profile_id
+  where r.chunk_rank <= chunks_per_profile
+  order by t.best_similarity desc, r.similarity desc;
+$$;
+
+-- Called by the edge functions for the authenticated user only
+REVOKE EXECUTE ON FUNCTION public.match_profile_chunks(vector, double precision, integer, uuid, integer, text, uuid[]) FROM PUBLIC, anon, authenticated;
+
+-- Saved search results keep the passages that explained each match
+ALTER TABLE public.candidate_matches
+  ADD COLUMN matched_passages jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,9 @@
+-- Language of the uploaded resume (ISO 639-1). Extracted fields are normalized to the
+-- working language configured for the edge functions; when the resume was written in
+-- another language, resume_text holds the translation and original_resume_text the
+-- text as it was extracted from the file.
+ALTER TABLE public.profiles
+  ADD COLUMN resume_language text,
+  ADD COLUMN original_resume_text text;
+
+CREATE INDEX idx_profiles_user_resume_language ON public.profiles(user_id, resume_language);
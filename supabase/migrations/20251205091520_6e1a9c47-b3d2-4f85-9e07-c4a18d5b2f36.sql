@@ -0,0 +1,10 @@
+-- Email ingestion: an .eml or .mbox upload is expanded by the worker like an archive,
+-- into one child item per PDF/DOCX attachment. The child carries what the email said
+-- about the candidate: the sender address, used when the resume has no email of its
+-- own, and the message body, kept on the profile as the cover letter.
+ALTER TABLE public.ingestion_items
+ADD COLUMN sender_email TEXT,
+ADD COLUMN cover_letter TEXT;
+
+ALTER TABLE public.profiles
+ADD COLUMN cover_letter TEXT;
@@ -0,0 +1,4 @@
+-- Resume quotes behind each strength and concern of a match, as
+-- [{kind: 'strength' | 'concern', point, quote}]. The resume viewer highlights them.
+ALTER TABLE public.candidate_matches
+ADD COLUMN evidence jsonb NOT NULL DEFAULT '[]'::jsonb;
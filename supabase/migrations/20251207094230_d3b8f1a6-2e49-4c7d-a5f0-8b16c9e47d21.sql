@@ -0,0 +1,136 @@
+-- Per-user resume storage: files are written under a folder named after the owner's ID
+-- ('<user_id>/<file>') instead of the shared 'resumes/' folder, and users can only
+-- reach objects in their own folder. The edge functions use the service role and are
+-- not affected by these policies.
+DROP POLICY IF EXISTS "Authenticated users can upload resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can view resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update resumes" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete resumes" ON storage.objects;
+
+CREATE POLICY "Users can upload their own resumes"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their own resumes"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update their own resumes"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text)
+WITH CHECK (bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own resumes"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Existing objects are moved by the migrate-resume-storage function: the stored file is
+-- keyed by the object name, so renaming rows in storage.objects would orphan it and the
+-- move has to go through the Storage API. These helpers do the database side.
+
+-- Objects still in the shared folder, with the user they belong to. The uploader recorded
+-- by storage comes first; rows can be written by their users, so they only decide files
+-- the edge functions uploaded, and only when every row pointing at the file belongs to the
+-- same user. Objects without an owner stay put and are only reachable with the service role.
+CREATE OR REPLACE FUNCTION public.legacy_resume_objects(
+  p_after text DEFAULT NULL,
+  p_limit integer DEFAULT 100
+)
+RETURNS TABLE (name text, owner_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  select o.name, coalesce(
+    o.owner,
+    (select min(r.user_id::text)::uuid
+      from (
+        select p.user_id from profiles p
+        where p.resume_file_url = o.name or right(p.resume_file_url, length(o.name) + 1) = '/' || o.name
+        union all
+        select q.user_id from quarantined_candidates q
+        where q.resume_file_url = o.name or right(q.resume_file_url, length(o.name) + 1) = '/' || o.name
+        union all
+        select v.user_id from resume_versions v
+        where v.resume_file_url = o.name or right(v.resume_file_url, length(o.name) + 1) = '/' || o.name
+      ) r
+      having count(r.user_id) > 0 and count(distinct r.user_id) = 1)
+  ) as owner_id
+  from storage.objects o
+  where o.bucket_id = 'resumes'
+    and o.name like 'resumes/%'
+    and (p_after is null or o.name > p_after)
+  order by o.name
+  limit p_limit;
+$$;
+
+-- Moving a file is not a new resume: record_resume_version skips profiles whose path is
+-- rewritten while this transaction-local flag is set
+CREATE OR REPLACE FUNCTION public.record_resume_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+begin
+  if tg_op = 'UPDATE' and new.resume_file_url is not distinct from old.resume_file_url then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and current_setting('app.rewriting_resume_paths', true) = 'on' then
+    return new;
+  end if;
+
+  insert into resume_versions (profile_id, user_id, version_number, resume_file_url, content_hash, snapshot)
+  select new.id, new.user_id, coalesce(max(v.version_number), 0) + 1, new.resume_file_url, new.content_hash,
+    profile_version_snapshot(new)
+  from resume_versions v
+  where v.profile_id = new.id;
+
+  return new;
+end;
+$$;
+
+-- Point every reference to a moved object at its new name. Resume URLs end in the object
+-- name; duplicate archive entries are stored as '<archive path>#<entry name>'.
+CREATE OR REPLACE FUNCTION public.rewrite_resume_path(p_old_path text, p_new_path text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+begin
+  perform set_config('app.rewriting_resume_paths', 'on', true);
+
+  update profiles
+  set resume_file_url = left(resume_file_url, length(resume_file_url) - length(p_old_path)) || p_new_path
+  where resume_file_url = p_old_path or right(resume_file_url, length(p_old_path) + 1) = '/' || p_old_path;
+
+  update quarantined_candidates
+  set resume_file_url = left(resume_file_url, length(resume_file_url) - length(p_old_path)) || p_new_path
+  where resume_file_url = p_old_path or right(resume_file_url, length(p_old_path) + 1) = '/' || p_old_path;
+
+  update resume_versions
+  set resume_file_url = left(resume_file_url, length(resume_file_url) - length(p_old_path)) || p_new_path
+  where resume_file_url = p_old_path or right(resume_file_url, length(p_old_path) + 1) = '/' || p_old_path;
+
+  update ingestion_items
+  set storage_path = p_new_path || substr(storage_path, length(p_old_path) + 1),
+      updated_at = now()
+  where storage_path = p_old_path or starts_with(storage_path, p_old_path || '#');
+
+  perform set_config('app.rewriting_resume_paths', 'off', true);
+end;
+$$;
+
+-- Only the storage migration (service role) may list or rewrite other users' files
+REVOKE EXECUTE ON FUNCTION public.legacy_resume_objects(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rewrite_resume_path(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,93 @@
+-- Hybrid candidate search: exact requirements such as "SAP S/4HANA" or "CKA" are easily
+-- outweighed in embedding similarity, so profiles also get a full-text document and
+-- searches fuse both rankings.
+
+-- Job title and skills weigh more than the rest of the resume. array_to_string is only
+-- stable, so the document is built by a wrapper that generated columns may use.
+CREATE OR REPLACE FUNCTION public.profile_search_document(p_job_title text, p_skills text[], p_resume_text text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  select setweight(to_tsvector('english'::regconfig, coalesce(p_job_title, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce(array_to_string(p_skills, ', '), '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce(p_resume_text, '')), 'C')
+$$;
+
+-- Generated after the BEFORE triggers, so it indexes the canonical skill names
+ALTER TABLE public.profiles
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (public.profile_search_document(job_title, skills, resume_text)) STORED;
+
+CREATE INDEX idx_profiles_search_vector ON public.profiles USING GIN (search_vector);
+
+-- Reciprocal rank fusion of full-text rank and cosine similarity: each profile scores
+-- 1 / (rrf_k + rank) in every ranking it appears in, over the top rank_window of each.
+-- query_text is read as a web search ("quoted phrases", -excluded, or) unless
+-- match_any_term is set, where any of its words counts, as for a whole job description.
+-- Without a query_embedding the ranking is full-text only.
+CREATE OR REPLACE FUNCTION public.hybrid_match_profiles(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_user_id uuid,
+  match_threshold double precision DEFAULT 0,
+  filter_embedding_model text DEFAULT NULL,
+  match_any_term boolean DEFAULT false,
+  rrf_k integer DEFAULT 60,
+  rank_window integer DEFAULT 200
+)
+RETURNS TABLE (
+  profile_id uuid,
+  score double precision,
+  text_rank real,
+  similarity double precision,
+  lexical_rank bigint,
+  semantic_rank bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  with search as (
+    select case
+      when match_any_term then (
+        select string_agg(quote_literal(lexeme), ' | ')::tsquery
+        from unnest(tsvector_to_array(to_tsvector('english'::regconfig, coalesce(query_text, '')))) as lexeme
+      )
+      else websearch_to_tsquery('english'::regconfig, coalesce(query_text, ''))
+    end as tsq
+  ),
+  lexical as (
+    select p.id, ts_rank(p.search_vector, q.tsq) as text_rank,
+           row_number() over (order by ts_rank(p.search_vector, q.tsq) desc, p.id) as lexical_rank
+    from profiles p, search q
+    where p.user_id = filter_user_id
+      and p.search_vector @@ q.tsq
+    order by lexical_rank
+    limit rank_window
+  ),
+  semantic as (
+    select p.id, 1 - (p.embedding <=> query_embedding) as similarity,
+           row_number() over (order by p.embedding <=> query_embedding, p.id) as semantic_rank
+    from profiles p
+    where query_embedding is not null
+      and p.user_id = filter_user_id
+      and p.embedding is not null
+      and (filter_embedding_model is null or p.embedding_model = filter_embedding_model)
+      and 1 - (p.embedding <=> query_embedding) > match_threshold
+    order by semantic_rank
+    limit rank_window
+  )
+  select coalesce(l.id, s.id) as profile_id,
+         (coalesce(1.0 / (rrf_k + l.lexical_rank), 0) + coalesce(1.0 / (rrf_k + s.semantic_rank), 0))::double precision as score,
+         l.text_rank, s.similarity, l.lexical_rank, s.semantic_rank
+  from lexical l
+  full outer join semantic s on s.id = l.id
+  order by score desc, profile_id
+  limit match_count;
+$$;
+
+-- Called by the edge functions, which embed the query first
+REVOKE EXECUTE ON FUNCTION public.hybrid_match_profiles(text, vector, integer, uuid, double precision, text, boolean, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,56 @@
+-- Job requisitions: the structured side of a search. match-candidates reads the
+-- requirements from here when a search is run for a job, and saved searches remember
+-- which job they were run for.
+CREATE TABLE public.jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  department text,
+  location text,
+  remote_policy text NOT NULL DEFAULT 'onsite' CHECK (remote_policy IN ('onsite', 'hybrid', 'remote')),
+  min_years integer CHECK (min_years >= 0),
+  max_years integer CHECK (max_years >= 0),
+  must_have_skills text[] NOT NULL DEFAULT '{}',
+  nice_to_have_skills text[] NOT NULL DEFAULT '{}',
+  salary_min integer CHECK (salary_min >= 0),
+  salary_max integer CHECK (salary_max >= 0),
+  salary_currency text,
+  description text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'open', 'on_hold', 'closed')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (min_years IS NULL OR max_years IS NULL OR min_years <= max_years),
+  CHECK (salary_min IS NULL OR salary_max IS NULL OR salary_min <= salary_max)
+);
+
+CREATE INDEX idx_jobs_user_status ON public.jobs(user_id, status);
+
+-- Enable RLS
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own jobs"
+ON public.jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own jobs"
+ON public.jobs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own jobs"
+ON public.jobs
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own jobs"
+ON public.jobs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Searches outlive the job they were run for
+ALTER TABLE public.job_searches
+  ADD COLUMN job_id uuid REFERENCES public.jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_job_searches_job_id ON public.job_searches(job_id);
@@ -0,0 +1,9 @@
+-- Requirements checklist. A search stores the requirements its job description was
+-- parsed into, as [{id, text, importance: 'must' | 'nice'}], and each match how the
+-- candidate measured up against them, as
+-- [{requirementId, status: 'met' | 'partial' | 'missing', evidence}].
+ALTER TABLE public.job_searches
+ADD COLUMN requirements jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.candidate_matches
+ADD COLUMN requirement_results jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,120 @@
+-- Hard filters for matching runs: candidates that fail a non-negotiable are excluded in
+-- SQL, before any of them reaches the model. Filters are a jsonb object
+-- {location, minYears, sector, skills} and searches record the ones they applied.
+ALTER TABLE public.job_searches
+ADD COLUMN filters jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Location and sector match as case-insensitive substrings; a profile without the field
+-- fails the filter. A required skill matches by name, or through the catalog skill it
+-- resolves to, so aliases count.
+CREATE OR REPLACE FUNCTION public.profile_matches_filters(p public.profiles, match_filters jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  select
+    (nullif(btrim(match_filters->>'location'), '') is null
+      or position(lower(btrim(match_filters->>'location')) in lower(coalesce(p.location, ''))) > 0)
+    and (match_filters->>'minYears' is null
+      or coalesce(p.years_of_experience >= (match_filters->>'minYears')::numeric, false))
+    and (nullif(btrim(match_filters->>'sector'), '') is null
+      or position(lower(btrim(match_filters->>'sector')) in lower(coalesce(p.sector, ''))) > 0)
+    and not exists (
+      select 1
+      from jsonb_array_elements_text(coalesce(match_filters->'skills', '[]'::jsonb)) as required(name)
+      where skill_key(required.name) is not null
+        and not exists (
+          select 1 from unnest(p.skills) as s(name) where skill_key(s.name) = skill_key(required.name)
+        )
+        and not coalesce((find_skill(p.user_id, skill_key(required.name))).id = any(p.skill_ids), false)
+    )
+$$;
+
+-- How many of the user's profiles pass the filters, for the size of the filtered pool
+CREATE OR REPLACE FUNCTION public.count_matching_profiles(filter_user_id uuid, match_filters jsonb)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  select count(*)::integer
+  from profiles p
+  where p.user_id = filter_user_id
+    and profile_matches_filters(p, match_filters)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_matching_profiles(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Adding a parameter would leave the old signature behind as an ambiguous overload
+DROP FUNCTION public.hybrid_match_profiles(text, vector, integer, uuid, double precision, text, boolean, integer, integer);
+
+-- As before, with both rankings limited to the profiles that pass match_filters
+CREATE OR REPLACE FUNCTION public.hybrid_match_profiles(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_user_id uuid,
+  match_threshold double precision DEFAULT 0,
+  filter_embedding_model text DEFAULT NULL,
+  match_any_term boolean DEFAULT false,
+  rrf_k integer DEFAULT 60,
+  rank_window integer DEFAULT 200,
+  match_filters jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  profile_id uuid,
+  score double precision,
+  text_rank real,
+  similarity double precision,
+  lexical_rank bigint,
+  semantic_rank bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  with search as (
+    select case
+      when match_any_term then (
+        select string_agg(quote_literal(lexeme), ' | ')::tsquery
+        from unnest(tsvector_to_array(to_tsvector('english'::regconfig, coalesce(query_text, '')))) as lexeme
+      )
+      else websearch_to_tsquery('english'::regconfig, coalesce(query_text, ''))
+    end as tsq
+  ),
+  lexical as (
+    select p.id, ts_rank(p.search_vector, q.tsq) as text_rank,
+           row_number() over (order by ts_rank(p.search_vector, q.tsq) desc, p.id) as lexical_rank
+    from profiles p, search q
+    where p.user_id = filter_user_id
+      and p.search_vector @@ q.tsq
+      and (match_filters is null or profile_matches_filters(p, match_filters))
+    order by lexical_rank
+    limit rank_window
+  ),
+  semantic as (
+    select p.id, 1 - (p.embedding <=> query_embedding) as similarity,
+           row_number() over (order by p.embedding <=> query_embedding, p.id) as semantic_rank
+    from profiles p
+    where query_embedding is not null
+      and p.user_id = filter_user_id
+      and p.embedding is not null
+      and (filter_embedding_model is null or p.embedding_model = filter_embedding_model)
+      and 1 - (p.embedding <=> query_embedding) > match_threshold
+      and (match_filters is null or profile_matches_filters(p, match_filters))
+    order by semantic_rank
+    limit rank_window
+  )
+  select coalesce(l.id, s.id) as profile_id,
+         (coalesce(1.0 / (rrf_k + l.lexical_rank), 0) + coalesce(1.0 / (rrf_k + s.semantic_rank), 0))::double precision as score,
+         l.text_rank, s.similarity, l.lexical_rank, s.semantic_rank
+  from lexical l
+  full outer join semantic s on s.id = l.id
+  order by score desc, profile_id
+  limit match_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hybrid_match_profiles(text, vector, integer, uuid, double precision, text, boolean, integer, integer, jsonb) FROM PUBLIC, anon, authenticated;